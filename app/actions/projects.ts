@@ -0,0 +1,47 @@
+'use server';
+
+// This file defines the server actions for the project workspace (list, open,
+// save, ...). They delegate to the file-system logic in `projectWorkspace.ts`.
+
+import {
+  listWorkspaceProjects,
+  readWorkspaceProjectFile,
+  createWorkspaceProject,
+  saveWorkspaceProject,
+  renameWorkspaceProject,
+  duplicateWorkspaceProject,
+  deleteWorkspaceProject,
+  ProjectSummary,
+} from '@/features/workspace/projectWorkspace';
+import { ProjectData } from '@/data/projectSchema';
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  return listWorkspaceProjects();
+}
+
+// Returns the raw file; the client migrates and validates it when loading
+export async function openProject(id: string): Promise<unknown> {
+  console.log('[DEBUG] Opening workspace project:', id);
+  return readWorkspaceProjectFile(id);
+}
+
+export async function createProject(projectName: string): Promise<ProjectSummary> {
+  return createWorkspaceProject(projectName);
+}
+
+export async function saveProject(id: string, data: ProjectData): Promise<ProjectSummary> {
+  console.log('[DEBUG] Saving workspace project:', id, 'with', data.functions.length, 'functions');
+  return saveWorkspaceProject(id, data);
+}
+
+export async function renameProject(id: string, newName: string): Promise<ProjectSummary> {
+  return renameWorkspaceProject(id, newName);
+}
+
+export async function duplicateProject(id: string, newName?: string): Promise<ProjectSummary> {
+  return duplicateWorkspaceProject(id, newName);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  return deleteWorkspaceProject(id);
+}
@@ -0,0 +1,59 @@
+// Entry point for code generation. This route handler sends the commands and
+// the partial aspect text as server-sent events while the LLM is still
+// generating (see `features/codegen/codegenStream.ts` for the events).
+
+import { callLLMCodeSynthesis, CodegenTrigger } from '@/features/codegen/codegenBackend';
+import { PackagedCodebase } from '@/features/codegen/codegenPackaging';
+import { encodeSseEvent, CodegenStreamEvent } from '@/features/codegen/codegenStream';
+import { classifyCodegenError } from '@/features/codegen/codegenErrors';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request): Promise<Response> {
+  const { snapshot, trigger } = (await request.json()) as { snapshot: PackagedCodebase; trigger: CodegenTrigger };
+  console.log('[DEBUG] Streaming codegen with trigger:', trigger);
+
+  // A client that cancels (or disconnects) aborts the LLM call; nothing is sent after that
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort(), { once: true });
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: CodegenStreamEvent) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(encodeSseEvent(event)));
+      };
+      try {
+        const { commands, warnings, rationale, usage } = await callLLMCodeSynthesis(
+          snapshot,
+          trigger,
+          (event) => send(event),
+          (model) => send({ type: 'start', model }),
+          abort.signal
+        );
+        console.log('[DEBUG] Streamed', commands.length, 'commands');
+        send({ type: 'done', warnings, rationale, usage });
+      } catch (error) {
+        const { kind, message, retryable } = classifyCodegenError(error);
+        if (kind === 'aborted') {
+          console.log('[DEBUG] Streaming codegen was cancelled by the client');
+        } else {
+          console.error('[ERROR] Streaming codegen failed:', error);
+        }
+        send({ type: 'error', message, kind, retryable });
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
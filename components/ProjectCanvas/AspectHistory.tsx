@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+
+import { type AspectRevision, type AspectRevisionSource, CodeAspect } from '@/store/codebase.types';
+
+import './AspectHistory.css';
+
+// Human-readable provenance of a revision
+const describeSource = (source: AspectRevisionSource): string => {
+  switch (source.kind) {
+    case 'human':
+      return 'Edited';
+    case 'llm':
+      return `Generated by ${source.model} (after ${source.triggerAspect} edit)`;
+    case 'rename':
+      return `Rename ripple: ${source.from} → ${source.to}`;
+    case 'initial':
+      return 'Original value';
+  }
+};
+
+interface AspectHistoryProps {
+  aspect: CodeAspect | undefined;
+  disabled?: boolean;
+  onRestore: (descriptor: string) => void;
+}
+
+/**
+ * History button for one aspect of a FunctionNode. Expands an inline list of
+ * earlier values (newest first) with their provenance; clicking one restores it.
+ */
+export default function AspectHistory({ aspect, disabled, onRestore }: AspectHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // The latest revision is the current value
+  const history = aspect?.history ?? [];
+  const previous: AspectRevision[] = (history[history.length - 1]?.descriptor === aspect?.descriptor
+    ? history.slice(0, -1)
+    : history
+  ).slice().reverse();
+
+  if (previous.length === 0) return null;
+
+  return (
+    <>
+      <span
+        className="aspect-history__button"
+        onClick={(e) => { e.stopPropagation(); setIsOpen((open) => !open); }}
+        title={`${previous.length} earlier version${previous.length === 1 ? '' : 's'}`}
+      >
+        🕘
+      </span>
+      {isOpen && (
+        <ul className="aspect-history nowheel nodrag" onClick={(e) => e.stopPropagation()}>
+          {previous.map((revision, index) => (
+            <li
+              key={index}
+              className={`aspect-history__item ${disabled ? 'disabled' : ''}`}
+              onClick={() => {
+                if (disabled) return;
+                onRestore(revision.descriptor);
+                setIsOpen(false);
+              }}
+              title="Restore this version"
+            >
+              <div className="aspect-history__meta">
+                {describeSource(revision.source)}
+                {revision.source.kind !== 'initial' && ` · ${new Date(revision.timestamp).toLocaleString()}`}
+              </div>
+              <div className="aspect-history__descriptor">{revision.descriptor || '(empty)'}</div>
+              {revision.source.kind === 'llm' && revision.source.rationale && (
+                <div className="aspect-history__rationale">Why: {revision.source.rationale}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import { cancelCodegenJob } from '@/features/codegen/codegenQueue';
+import type { CodegenJob } from '@/store/codebase.types';
+
+import './CodegenJobsPanel.css';
+
+// "signature, specification + code"
+const describeJob = (job: CodegenJob) => {
+  const targets = job.calleeChanges ? 'implementation (callees changed)' : job.aspectsToGenerate.join(', ');
+  if (!job.generateCode) return targets || `after ${job.field} edit`;
+  return targets ? `${targets} + code` : 'code';
+};
+
+/**
+ * Canvas panel listing the pending code-generation jobs of the project, with
+ * their status and a cancel button. Hidden while nothing is pending.
+ */
+export default function CodegenJobsPanel() {
+  const { codegenJobs } = useCodebaseStore();
+  if (codegenJobs.length === 0) return null;
+
+  return (
+    <div className="codegen-jobs-panel">
+      <div className="codegen-jobs-panel__header">
+        <span>Code generation ({codegenJobs.length})</span>
+        {codegenJobs.length > 1 && (
+          <button onClick={() => codegenJobs.forEach((job) => cancelCodegenJob(job.id))}>Cancel all</button>
+        )}
+      </div>
+      <ul className="codegen-jobs-panel__list">
+        {codegenJobs.map((job) => (
+          <li key={job.id} className={`codegen-jobs-panel__job codegen-jobs-panel__job--${job.status}`}>
+            <span className="codegen-jobs-panel__name">
+              {job.functionName || 'Unnamed function'}
+              <span className="codegen-jobs-panel__meta">
+                {describeJob(job)} · {job.status === 'running' ? `running${job.model ? ` (${job.model})` : ''}` : 'queued'}
+              </span>
+            </span>
+            <span className="codegen-jobs-panel__cancel" onClick={() => cancelCodegenJob(job.id)} title="Cancel">
+              ×
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+
+import './CodegenModeToggles.css';
+
+/**
+ * Banner switches for the project's codegen modes:
+ * - ripple mode: changing a function's signature or specification marks the
+ *   implementations of its callers for review (see features/codegen/codegenRipple.ts)
+ * - propose mode: LLM changes wait on the nodes for review instead of being applied
+ */
+export default function CodegenModeToggles() {
+  const { rippleCallers, setRippleCallers, proposeChanges, setProposeChanges } = useCodebaseStore();
+
+  return (
+    <div className="codegen-mode-toggles">
+      <label
+        className="codegen-mode-toggles__toggle"
+        title="When a function's signature or specification changes, mark the functions that call it for review"
+      >
+        <input type="checkbox" checked={rippleCallers} onChange={(e) => setRippleCallers(e.target.checked)} />
+        <span>Ripple to callers</span>
+      </label>
+      <label
+        className="codegen-mode-toggles__toggle"
+        title="Show the LLM's changes on the nodes to accept or reject them, instead of applying them right away"
+      >
+        <input type="checkbox" checked={proposeChanges} onChange={(e) => setProposeChanges(e.target.checked)} />
+        <span>Review changes</span>
+      </label>
+    </div>
+  );
+}
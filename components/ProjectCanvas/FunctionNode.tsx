@@ -6,13 +6,28 @@ import { useMutation } from '@tanstack/react-query';
 import { Handle, Position, useUpdateNodeInternals, useReactFlow } from 'reactflow';
 import type { NodeProps } from 'reactflow';
 import { useCodebaseStore } from '@/store/useCodebaseStore';
-import { CodeAspect, AspectState, CodeAspectType, CodeFunction } from '@/store/codebase.types';
-import { applyCodegenCommands, invokeCodegenForFunction, calculateAspectsToGenerate } from '@/features/codegen/codegenFrontend';
+import { CodeAspect, AspectState, CodeAspectType, CodeFunction, type CalleeChange } from '@/store/codebase.types';
+import { calculateAspectsToGenerate } from '@/features/codegen/codegenFrontend';
+import { enqueueCodegen, cancelCodegenJob, CodegenCancelledError, CodegenBudgetExceededError } from '@/features/codegen/codegenQueue';
+import { describeCalleeChanges } from '@/features/codegen/codegenRipple';
+import { classifyCodegenError, describeCodegenError } from '@/features/codegen/codegenErrors';
+import { TARGET_LANGUAGES } from '@/features/codegen/codegenLanguages';
 import { findOptimalNodePlacement } from '@/utils/nodePlacement';
 import { NODE_WIDTH, NODE_MIN_HEIGHT, calculateNodeHeight } from '@/constants/nodeConstants';
+import AspectHistory from './AspectHistory';
+import ProposalReview from './ProposalReview';
 
 import './FunctionNode.css';
 
+// The model's explanation of the latest change to a function, if that change was generated (kept in the revision history)
+const latestRationale = (func: CodeFunction | undefined) => {
+  const current = Object.values(CodeAspectType)
+    .map((aspect) => func?.[aspect].history[func[aspect].history.length - 1])
+    .filter((revision) => revision !== undefined)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+  return current?.source.kind === 'llm' && current.source.rationale ? { model: current.source.model, text: current.source.rationale } : undefined;
+};
+
 // Animated spinner donut component
 const SpinnerDonut = () => <span className="spinner-donut" />;
 
@@ -194,15 +209,25 @@ function FunctionNode(props: FunctionNodeProps) {
   const { getViewport, setViewport, screenToFlowPosition } = useReactFlow();
   
   // Store references
-  const { codeFunctions, updateCodeFunction, removeCodeFunction, addCodeFunction } = useCodebaseStore();
+  const { codeFunctions, updateCodeFunction, removeCodeFunction, addCodeFunction, batchHistory, targetLanguage, codegenJobs } = useCodebaseStore();
   const method = codeFunctions.find((f) => f.id === functionId);
+  // Queued and running codegen jobs for this function (see features/codegen/codegenQueue.ts)
+  const functionJobs = codegenJobs.filter((job) => job.functionId === functionId);
+  const runningJob = functionJobs.find((job) => job.status === 'running');
   
-  // Local state for processing fields
-  const [processingFields, setProcessingFields] = useState<string[]>([]);
   const [hoveredHandleId, setHoveredHandleId] = useState<string | null>(null);
+  // Warnings from the last codegen run (dropped tool calls, truncation, no changes)
+  const [codegenWarnings, setCodegenWarnings] = useState<string[]>([]);
+  // Why the last codegen run failed (it can be retried)
+  const [codegenError, setCodegenError] = useState<string | null>(null);
+  // Text of aspects that are still being streamed from the LLM
+  const [streamingText, setStreamingText] = useState<Partial<Record<CodeAspectType, string>>>({});
+  const [showCode, setShowCode] = useState(false);
+  const [showRationale, setShowRationale] = useState(false);
+  const rationale = latestRationale(method);
   const prevHighlightedRef = useRef<SVGGElement | null>(null);
 
-  // React Query mutation for codegen (moved from EditableField)
+  // React Query mutation for codegen; the job itself runs in the project-wide codegen queue
   const codegenMutation = useMutation({
     mutationFn: async ({
       functionId,
@@ -210,37 +235,65 @@ function FunctionNode(props: FunctionNodeProps) {
       oldValue,
       newValue,
       aspectsToGenerate,
+      generateCode,
+      calleeChanges,
+      reroll,
     }: {
       functionId: string;
       field: string;
       oldValue: string;
       newValue: string;
       aspectsToGenerate: CodeAspectType[];
+      generateCode?: boolean;
+      calleeChanges?: CalleeChange[];
+      reroll?: boolean;
     }) => {
-      // Find the function index for the codegen API (which still uses indices)
-      const functionIndex = codeFunctions.findIndex((f) => f.id === functionId);
-      if (functionIndex === -1) throw new Error('Function not found');
-      // Use the pre-calculated aspectsToGenerate list
-      return invokeCodegenForFunction(functionIndex, field);
+      // Commands are applied to the store as they arrive; partial text is only shown in this node
+      return enqueueCodegen(functionId, field as CodeAspectType, aspectsToGenerate, {
+        generateCode,
+        calleeChanges,
+        reroll,
+        onPartial: (partial) => {
+          const { codeFunctions, proposeChanges } = useCodebaseStore.getState();
+          // In propose mode, nothing on the node changes before the user accepts it
+          if (proposeChanges || partial.methodName !== codeFunctions.find((f) => f.id === functionId)?.identifier.descriptor) return;
+          setStreamingText((current) => ({ ...current, [partial.aspect]: partial.text }));
+        },
+      });
     },
-    onSuccess: (commands) => {
-      // apply the commands to the store
-      applyCodegenCommands(commands);
-      setProcessingFields([]);
+    onSuccess: ({ warnings }) => {
+      if (warnings.length > 0) console.warn('Codegen warnings:', warnings);
+      setCodegenWarnings(warnings);
+      setStreamingText({});
     },
-    onError: () => {
-      setProcessingFields([]);
+    onError: (error) => {
+      setStreamingText({});
+      if (error instanceof CodegenCancelledError) return;
+      if (error instanceof CodegenBudgetExceededError) {
+        setCodegenWarnings([error.message]);
+        return;
+      }
+      console.error('Codegen failed:', error);
+      setCodegenError(describeCodegenError(classifyCodegenError(error)));
     },
   });
 
-  // Helper function to check if a field is currently being processed
+  // Runs the failed codegen request again
+  const retryCodegen = () => {
+    if (!codegenMutation.variables || isAnyFieldProcessing()) return;
+    setCodegenError(null);
+    setCodegenWarnings([]);
+    codegenMutation.mutate(codegenMutation.variables);
+  };
+
+  // Helper function to check if a field is waiting for or being generated by a codegen job
   const isFieldProcessing = (fieldName: string) => {
-    return codegenMutation.isPending && processingFields.includes(fieldName);
+    return functionJobs.some((job) => (job.generateCode ? [...job.aspectsToGenerate, 'code'] : job.aspectsToGenerate).includes(fieldName as CodeAspectType));
   };
 
-  // Helper function to check if any field is processing (for general UI state)
+  // Helper function to check if any codegen job for this function is pending (for general UI state)
   const isAnyFieldProcessing = () => {
-    return codegenMutation.isPending;
+    return functionJobs.length > 0;
   };
 
   // toggle between LOCKED and AUTOGEN for a field
@@ -252,34 +305,130 @@ function FunctionNode(props: FunctionNodeProps) {
     updateCodeFunction(functionId, { [aspectKey]: newAspect } as Partial<CodeFunction>);
   };
 
+  // put an earlier version of an aspect back (recorded as a human edit; no codegen is triggered).
+  // An earlier name is a rename, so calls in other functions follow it, as one undo step.
+  const restoreAspectRevision = (aspectKey: 'identifier' | 'signature' | 'specification' | 'implementation', descriptor: string) => {
+    if (!method || isAnyFieldProcessing()) return;
+    batchHistory(() => {
+      if (aspectKey === 'identifier') rippleRename(method.identifier.descriptor, descriptor);
+      updateCodeFunction(functionId, { [aspectKey]: new CodeAspect(descriptor, AspectState.EDITED) } as Partial<CodeFunction>);
+    });
+  };
+
 
 
   // Helper function to trigger codegen for this function's aspect
-  const triggerCodegenForFunction = (field: string, oldValue: string, newValue: string, aspectsToGenerate: CodeAspectType[]) => {
+  const triggerCodegenForFunction = (field: string, oldValue: string, newValue: string, aspectsToGenerate: CodeAspectType[], generateCode?: boolean, calleeChanges?: CalleeChange[], reroll?: boolean) => {
     if (!method) {
       console.warn('Cannot trigger codegen: method is undefined');
       return;
     }
     
-    // Set processing fields for UI feedback
-    console.log('Setting processing fields:', aspectsToGenerate, 'for function:', functionId);
-    setProcessingFields(aspectsToGenerate);
+    // The queued job marks its fields as processing
+    console.log('Queueing codegen for aspects:', aspectsToGenerate, 'of function:', functionId);
+    setCodegenWarnings([]);
+    setCodegenError(null);
     
-    // Use the React Query mutation instead of calling invokeCodegenForFunction directly
+    // Use the React Query mutation instead of calling enqueueCodegen directly
     codegenMutation.mutate({
       functionId,
       field,
       oldValue,
       newValue,
       aspectsToGenerate, // Pass the pre-calculated list
+      generateCode,
+      calleeChanges,
+      reroll,
     });
   };
 
+  // Helper function to regenerate an aspect and the ones after it (↻); always asks the LLM anew
+  const rerollAspect = (aspect: CodeAspectType) => {
+    if (!method) return;
+    const descriptor = method[aspect].descriptor;
+    triggerCodegenForFunction(aspect, descriptor, descriptor, calculateAspectsToGenerate(aspect, method, true), false, undefined, true);
+  };
+
+  // Helper function to (re)write this function's source code from its current aspects
+  const generateSourceCode = () => {
+    if (!method || isAnyFieldProcessing()) return;
+    setShowCode(true);
+    triggerCodegenForFunction('implementation', method.implementation.descriptor, method.implementation.descriptor, [], true);
+  };
+
+  // Ripple mode: regenerate this function's implementation for the callee changes it is marked with
+  const regenerateForCalleeChanges = () => {
+    if (!method || isAnyFieldProcessing() || method.implementation.state === AspectState.LOCKED) return;
+    const descriptor = method.implementation.descriptor;
+    triggerCodegenForFunction('implementation', descriptor, descriptor, [CodeAspectType.IMPLEMENTATION], false, method.calleeChanges);
+  };
+
+  // Ripple mode: regenerate every caller still marked with changes of this function (locked implementations are left alone)
+  const calleeName = method?.identifier.descriptor.split('(')[0].trim() ?? '';
+  const callersToReview = codeFunctions.filter((f) => f.calleeChanges.some((change) => change.callee === calleeName));
+  const regenerateCallers = () => {
+    callersToReview
+      .filter((caller) => caller.implementation.state !== AspectState.LOCKED && !codegenJobs.some((job) => job.functionId === caller.id))
+      .forEach((caller) => {
+        enqueueCodegen(caller.id, CodeAspectType.IMPLEMENTATION, [CodeAspectType.IMPLEMENTATION], { calleeChanges: caller.calleeChanges })
+          .then(({ warnings }) => warnings.length > 0 && console.warn(`Codegen warnings for '${caller.identifier.descriptor}':`, warnings))
+          .catch((error) => {
+            if (error instanceof CodegenBudgetExceededError) setCodegenWarnings([error.message]);
+            else if (!(error instanceof CodegenCancelledError)) console.error('Codegen failed:', error);
+          });
+      });
+  };
+
   // Helper function to delete this function from the codebase
   const handleDeleteFunction = () => {
     removeCodeFunction(functionId);
   };
 
+  // Update calls to this function in other functions' implementations after a rename.
+  // Call it in the same batchHistory as the rename itself, so both undo as one step.
+  const rippleRename = (oldValue: string, value: string) => {
+    if (value === oldValue || !oldValue.trim() || !value.trim()) return;
+
+    // Extract function names (remove any parameters or extra text)
+    const oldFunctionName = oldValue.split('(')[0].trim();
+    const newFunctionName = value.split('(')[0].trim();
+  
+    if (oldFunctionName && newFunctionName && oldFunctionName !== newFunctionName) {
+      console.log(`Renaming function references from '${oldFunctionName}' to '${newFunctionName}'`);
+    
+      // Update all other functions that reference the old function name
+      codeFunctions.forEach((func) => {
+        if (func.id === functionId) return; // Skip the current function being renamed
+      
+        const implementation = func.implementation?.descriptor || '';
+        if (!implementation) return;
+      
+        // Create regex to match function calls: oldFunctionName followed by (
+        const functionCallRegex = new RegExp(`\\b${oldFunctionName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=\\()`, 'g');
+      
+        if (functionCallRegex.test(implementation)) {
+          // Replace all occurrences of the old function name with the new one
+          const updatedImplementation = implementation.replace(functionCallRegex, newFunctionName);
+        
+          console.log(`Updated function ${func.id}: ${func.identifier?.descriptor} - replaced '${oldFunctionName}' with '${newFunctionName}'`);
+        
+          // Update the function with the new implementation
+          // Preserve the original aspect state unless it was UNSET
+          const currentState = func.implementation?.state || AspectState.UNSET;
+          const newState = currentState === AspectState.UNSET ? AspectState.EDITED : currentState;
+        
+          // Patching the call isn't a review: keep pending callee changes, under the new name
+          updateCodeFunction(func.id, {
+            implementation: new CodeAspect(updatedImplementation, newState),
+            calleeChanges: func.calleeChanges.map((change) =>
+              change.callee === oldFunctionName ? { ...change, callee: newFunctionName } : change
+            ),
+          }, { kind: 'rename', from: oldFunctionName, to: newFunctionName });
+        }
+      });
+    }
+  };
+
   const handleAspectChange = (aspect: 'identifier' | 'signature' | 'specification' | 'implementation', value: string, oldValue: string) => {
     if (!method) return;
 
@@ -291,63 +440,31 @@ function FunctionNode(props: FunctionNodeProps) {
     // Calculate aspects to generate for normal edits (excludes the edited aspect)
     const aspectsToGenerate = calculateAspectsToGenerate(aspect as CodeAspectType, method, false);
 
-    // STEP 1: Handle identifier renaming - update function references in other functions FIRST
-    if (aspect === 'identifier' && value !== oldValue && oldValue.trim() && value.trim()) {
-      // Extract function names (remove any parameters or extra text)
-      const oldFunctionName = oldValue.split('(')[0].trim();
-      const newFunctionName = value.split('(')[0].trim();
-      
-      if (oldFunctionName && newFunctionName && oldFunctionName !== newFunctionName) {
-        console.log(`Renaming function references from '${oldFunctionName}' to '${newFunctionName}'`);
-        
-        // Update all other functions that reference the old function name
-        codeFunctions.forEach((func) => {
-          if (func.id === functionId) return; // Skip the current function being renamed
-          
-          const implementation = func.implementation?.descriptor || '';
-          if (!implementation) return;
-          
-          // Create regex to match function calls: oldFunctionName followed by (
-          const functionCallRegex = new RegExp(`\\b${oldFunctionName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=\\()`, 'g');
-          
-          if (functionCallRegex.test(implementation)) {
-            // Replace all occurrences of the old function name with the new one
-            const updatedImplementation = implementation.replace(functionCallRegex, newFunctionName);
-            
-            console.log(`Updated function ${func.id}: ${func.identifier?.descriptor} - replaced '${oldFunctionName}' with '${newFunctionName}'`);
-            
-            // Update the function with the new implementation
-            // Preserve the original aspect state unless it was UNSET
-            const currentState = func.implementation?.state || AspectState.UNSET;
-            const newState = currentState === AspectState.UNSET ? AspectState.EDITED : currentState;
-            
-            updateCodeFunction(func.id, {
-              implementation: new CodeAspect(updatedImplementation, newState)
-            });
-          }
-        });
-      }
-    }
+    // STEP 1 + 2 form a single undo step (the rename ripple and the edit itself)
+    batchHistory(() => {
+      // STEP 1: Handle identifier renaming - update function references in other functions FIRST
+      if (aspect === 'identifier') rippleRename(oldValue, value);
 
-    // STEP 2: Update the current function's aspect
-    const updates: Partial<CodeFunction> = {};
+      // STEP 2: Update the current function's aspect
+      const updates: Partial<CodeFunction> = {};
     
-    switch (aspect) {
-      case 'identifier':
-        updates.identifier = createUpdatedAspect(method.identifier, value, AspectState.EDITED);
-        break;
-      case 'signature':
-        updates.signature = createUpdatedAspect(method.signature, value, AspectState.EDITED);
-        break;
-      case 'specification':
-        updates.specification = createUpdatedAspect(method.specification, value, AspectState.EDITED);
-        break;
-      case 'implementation':
-        updates.implementation = createUpdatedAspect(method.implementation, value, AspectState.EDITED);
-        break;
-    }
+      switch (aspect) {
+        case 'identifier':
+          updates.identifier = createUpdatedAspect(method.identifier, value, AspectState.EDITED);
+          break;
+        case 'signature':
+          updates.signature = createUpdatedAspect(method.signature, value, AspectState.EDITED);
+          break;
+        case 'specification':
+          updates.specification = createUpdatedAspect(method.specification, value, AspectState.EDITED);
+          break;
+        case 'implementation':
+          updates.implementation = createUpdatedAspect(method.implementation, value, AspectState.EDITED);
+          break;
+      }
 
-    updateCodeFunction(functionId, updates); // persist aspect edits
+      updateCodeFunction(functionId, updates); // persist aspect edits
+    });
 
     // STEP 3: Trigger codegen for subsequent aspects if the value actually changed
     if (value !== oldValue) {
@@ -361,22 +478,17 @@ function FunctionNode(props: FunctionNodeProps) {
     updateNodeInternals(functionId);
   }, [functionId, method?.implementation?.descriptor, updateNodeInternals]);
 
-  // Check if this is a newly created function that needs codegen (identifier state is AUTOGEN)
-  const hasTriggeredCodegen = useRef(false);
-  
+  // A function the user just created by name (double-click on a call) generates its
+  // other aspects once. Loaded, restored or model-created functions never do.
   useEffect(() => {
-    if (method && 
-        method.identifier.state === AspectState.AUTOGEN && 
-        method.identifier.descriptor.trim() !== '' && // Only trigger for non-empty identifiers
-        !hasTriggeredCodegen.current) {
-      
-      console.log('🚀 Auto-triggering codegen for newly created function:', method.identifier.descriptor);
-      hasTriggeredCodegen.current = true;
-      
-      // Use the same flow as manual triggers to ensure proper UI state management
-      const aspectsToGenerate = calculateAspectsToGenerate('identifier' as CodeAspectType, method, false);
-      triggerCodegenForFunction('identifier', '', method.identifier.descriptor, aspectsToGenerate);
-    }
+    if (!method || method.identifier.descriptor.trim() === '') return;
+    if (!useCodebaseStore.getState().takeAutoGenerate(functionId)) return;
+
+    console.log('🚀 Auto-triggering codegen for newly created function:', method.identifier.descriptor);
+
+    // Use the same flow as manual triggers to ensure proper UI state management
+    const aspectsToGenerate = calculateAspectsToGenerate('identifier' as CodeAspectType, method, false);
+    triggerCodegenForFunction('identifier', '', method.identifier.descriptor, aspectsToGenerate);
   }, [method, codegenMutation]);
 
 
@@ -543,10 +655,11 @@ function FunctionNode(props: FunctionNodeProps) {
               const optimalPosition = findOptimalNodePlacement(clickPosition, existingNodes);
               
               // Add to store with calculated position AND initial identifier in AUTOGEN state
-              // This ensures the function is created with the correct state in a single update
+              // This ensures the function is created with the correct state in a single update;
+              // its node then generates the other aspects once it mounts
               const newFunctionId = addCodeFunction(optimalPosition, {
                 identifier: { descriptor: fnName, state: AspectState.AUTOGEN }
-              });
+              }, true);
               
               // Don't auto-focus for named nodes (identifier already filled)
               if (data.onSetAutoFocus) {
@@ -615,6 +728,8 @@ function FunctionNode(props: FunctionNodeProps) {
     }
   };
 
+  const implementationText = streamingText.implementation ?? method?.implementation?.descriptor;
+
   return (
     <div
       className={`method-node ${selected ? 'selected' : ''}`}
@@ -628,7 +743,7 @@ function FunctionNode(props: FunctionNodeProps) {
 
       <div className="method-node__identifier method-node-drag-handle">
         <EditableField
-          value={method?.identifier?.descriptor || ''}
+          value={streamingText.identifier ?? method?.identifier?.descriptor ?? ''}
           onSave={(value) => handleAspectChange('identifier', value, method?.identifier?.descriptor || '')}
           placeholder="Enter function name"
           className="method-node__identifier"
@@ -641,12 +756,17 @@ function FunctionNode(props: FunctionNodeProps) {
         <span className="delete-button" onClick={(e)=>{e.stopPropagation(); handleDeleteFunction();}}>
           ×
         </span>
+        <AspectHistory
+          aspect={method?.identifier}
+          disabled={isAnyFieldProcessing()}
+          onRestore={(descriptor) => restoreAspectRevision('identifier', descriptor)}
+        />
 
       </div>
 
       <div className="method-node__signature noDrag">
         <EditableField
-          value={method?.signature?.descriptor || ''}
+          value={streamingText.signature ?? method?.signature?.descriptor ?? ''}
           onSave={(value) => handleAspectChange('signature', value, method?.signature?.descriptor || '')}
           placeholder="return type"
           isItalic
@@ -660,17 +780,21 @@ function FunctionNode(props: FunctionNodeProps) {
         {method?.signature?.state !== AspectState.UNSET && (
           <span className="reroll-button" onClick={(e)=>{
             e.stopPropagation(); 
-            const aspectsToGenerate = method ? calculateAspectsToGenerate('signature' as CodeAspectType, method, true) : [];
-            triggerCodegenForFunction('signature', method?.signature?.descriptor || '', method?.signature?.descriptor || '', aspectsToGenerate);
+            rerollAspect(CodeAspectType.SIGNATURE);
           }} title="Reroll signature and subsequent aspects">
             ↻
           </span>
         )}
+        <AspectHistory
+          aspect={method?.signature}
+          disabled={isAnyFieldProcessing()}
+          onRestore={(descriptor) => restoreAspectRevision('signature', descriptor)}
+        />
       </div>
 
       <div className="method-node__specification noDrag">
         <EditableField
-          value={method?.specification?.descriptor || ''}
+          value={streamingText.specification ?? method?.specification?.descriptor ?? ''}
           onSave={(value) => handleAspectChange('specification', value, method?.specification?.descriptor || '')}
           placeholder="specification"
           nodeId={functionId}
@@ -683,19 +807,23 @@ function FunctionNode(props: FunctionNodeProps) {
         {method?.specification?.state !== AspectState.UNSET && (
           <span className="reroll-button" onClick={(e)=>{
             e.stopPropagation(); 
-            const aspectsToGenerate = method ? calculateAspectsToGenerate('specification' as CodeAspectType, method, true) : [];
-            triggerCodegenForFunction('specification', method?.specification?.descriptor || '', method?.specification?.descriptor || '', aspectsToGenerate);
+            rerollAspect(CodeAspectType.SPECIFICATION);
           }} title="Reroll specification and subsequent aspects">
             ↻
           </span>
         )}
+        <AspectHistory
+          aspect={method?.specification}
+          disabled={isAnyFieldProcessing()}
+          onRestore={(descriptor) => restoreAspectRevision('specification', descriptor)}
+        />
       </div>
 
       <div className="method-node__implementation noDrag">
         <div
           className={`implementation-content ${isFieldProcessing('implementation') ? 'processing' : ''}`}
         >
-          {method?.implementation?.descriptor ? renderImplementation(method.implementation.descriptor) : (
+          {implementationText ? renderImplementation(implementationText) : (
             <span className="implementation-placeholder">implementation</span>
           )}
         </div>
@@ -705,14 +833,132 @@ function FunctionNode(props: FunctionNodeProps) {
         {method?.implementation?.state !== AspectState.UNSET && (
           <span className="reroll-button" onClick={(e)=>{
             e.stopPropagation(); 
-            const aspectsToGenerate = method ? calculateAspectsToGenerate('implementation' as CodeAspectType, method, true) : [];
-            triggerCodegenForFunction('implementation', method?.implementation?.descriptor || '', method?.implementation?.descriptor || '', aspectsToGenerate);
+            rerollAspect(CodeAspectType.IMPLEMENTATION);
           }} title="Reroll implementation">
             ↻
           </span>
         )}
+        <AspectHistory
+          aspect={method?.implementation}
+          disabled={isAnyFieldProcessing()}
+          onRestore={(descriptor) => restoreAspectRevision('implementation', descriptor)}
+        />
       </div>
 
+      <div className="method-node__code noDrag">
+        <div className="method-node__code-header">
+          <span className="method-node__code-toggle" onClick={(e) => { e.stopPropagation(); setShowCode(!showCode); }}>
+            {showCode ? '▾' : '▸'} {TARGET_LANGUAGES[targetLanguage].label} code
+          </span>
+          <span
+            className="method-node__code-generate"
+            onClick={(e) => { e.stopPropagation(); generateSourceCode(); }}
+            title={`${method?.code ? 'Regenerate' : 'Generate'} the ${TARGET_LANGUAGES[targetLanguage].label} source code from the aspects`}
+          >
+            {isFieldProcessing('code') ? <SpinnerDonut /> : '</>'}
+          </span>
+        </div>
+        {showCode && (
+          <pre className="method-node__code-source nowheel">
+            {method?.code || 'No code yet. Click </> to generate it.'}
+          </pre>
+        )}
+      </div>
+
+      <ProposalReview functionId={functionId} />
+
+      {method && method.calleeChanges.length > 0 && (
+        <div className="method-node__review noDrag" title={describeCalleeChanges(method.calleeChanges).join('\n')}>
+          <span>
+            ⟳ Review: {method.calleeChanges.map((change) => `${change.callee} (${change.aspect})`).join(', ')} changed
+          </span>
+          {method.implementation.state === AspectState.LOCKED ? (
+            <span className="method-node__review-action method-node__review-action--disabled" title="The implementation is locked; unlock it to regenerate">
+              🔒
+            </span>
+          ) : (
+            <span
+              className="method-node__review-action"
+              onClick={(e) => { e.stopPropagation(); regenerateForCalleeChanges(); }}
+              title="Regenerate the implementation for the changed functions"
+            >
+              Update
+            </span>
+          )}
+          <span
+            className="method-node__review-action"
+            onClick={(e) => { e.stopPropagation(); updateCodeFunction(functionId, { calleeChanges: [] }); }}
+            title="Keep the implementation as it is"
+          >
+            Dismiss
+          </span>
+        </div>
+      )}
+
+      {callersToReview.length > 0 && (
+        <div className="method-node__review noDrag">
+          <span>
+            {callersToReview.length} caller{callersToReview.length === 1 ? '' : 's'} to review after this change
+          </span>
+          <span
+            className="method-node__review-action"
+            onClick={(e) => { e.stopPropagation(); regenerateCallers(); }}
+            title={`Regenerate the implementations of ${callersToReview.map((f) => f.identifier.descriptor).join(', ')} (locked ones are skipped)`}
+          >
+            Update all
+          </span>
+        </div>
+      )}
+
+      {functionJobs.length > 0 && (
+        <div className="method-node__codegen-status noDrag">
+          <span>
+            {runningJob ? 'Generating…' : 'Queued'}
+            {functionJobs.length > 1 ? ` (+${functionJobs.length - 1} queued)` : ''}
+          </span>
+          <span
+            className="method-node__codegen-status-cancel"
+            onClick={(e) => { e.stopPropagation(); functionJobs.forEach((job) => cancelCodegenJob(job.id)); }}
+            title="Cancel code generation for this function"
+          >
+            Cancel
+          </span>
+        </div>
+      )}
+
+      {rationale && (
+        <div className="method-node__rationale noDrag nowheel">
+          <span
+            className="method-node__rationale-toggle"
+            onClick={(e) => { e.stopPropagation(); setShowRationale((open) => !open); }}
+            title={`Why ${rationale.model} made its latest change to this function`}
+          >
+            {showRationale ? '▾' : '▸'} Why?
+          </span>
+          {showRationale && <div className="method-node__rationale-text">{rationale.text}</div>}
+        </div>
+      )}
+
+      {codegenError && (
+        <div className="method-node__codegen-error noDrag" title={codegenError}>
+          <span>✖ {codegenError}</span>
+          <span className="method-node__codegen-error-action" onClick={(e) => { e.stopPropagation(); retryCodegen(); }} title="Send the same request again">
+            Retry
+          </span>
+          <span className="method-node__codegen-error-action" onClick={(e) => { e.stopPropagation(); setCodegenError(null); }}>
+            ×
+          </span>
+        </div>
+      )}
+
+      {codegenWarnings.length > 0 && (
+        <div className="method-node__codegen-warning noDrag" title={codegenWarnings.join('\n')}>
+          <span>⚠ {codegenWarnings[0]}{codegenWarnings.length > 1 ? ` (+${codegenWarnings.length - 1} more)` : ''}</span>
+          <span className="method-node__codegen-warning-dismiss" onClick={(e) => { e.stopPropagation(); setCodegenWarnings([]); }}>
+            ×
+          </span>
+        </div>
+      )}
 
     </div>
   );
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import { createProject, deleteProject } from '@/app/actions/projects';
+import { draftProjectFromBrief } from '@/features/codegen/codegenBrief';
+import { CodegenError, describeCodegenError } from '@/features/codegen/codegenErrors';
+
+import './ProjectBriefDialog.css';
+
+interface ProjectBriefDialogProps {
+  onClose: () => void;
+  onCreated: () => void; // The workspace project exists (the draft may still be generating)
+}
+
+/**
+ * Modal for a new workspace project drafted from a brief: the user describes
+ * the system, and the LLM creates its functions, laid out as a call tree.
+ * Closing it doesn't stop the draft; the job stays in the codegen queue.
+ * If the draft fails, the new project stays open with what was drafted so far.
+ */
+export default function ProjectBriefDialog({ onClose, onCreated }: ProjectBriefDialogProps) {
+  const { openWorkspaceProject } = useCodebaseStore();
+  const functionCount = useCodebaseStore((state) => state.codeFunctions.length);
+  const [projectName, setProjectName] = useState('New Project');
+  const [brief, setBrief] = useState('');
+  const [isProjectOpened, setIsProjectOpened] = useState(false); // The new project replaced the current one
+
+  const draftMutation = useMutation({
+    mutationFn: async () => {
+      setIsProjectOpened(false);
+      const summary = await createProject(projectName.trim());
+      try {
+        await openWorkspaceProject(summary.id);
+      } catch (error) {
+        // Don't leave an empty project behind that the user never saw
+        await deleteProject(summary.id).catch((deleteError) => console.error('Failed to delete the new project:', deleteError));
+        throw error;
+      }
+      setIsProjectOpened(true);
+      onCreated();
+      return draftProjectFromBrief(brief);
+    },
+    onSuccess: (result) => {
+      if (result.warnings.length > 0) console.warn('Project draft warnings:', result.warnings);
+      onClose();
+    },
+    onError: (error) => console.error('Failed to draft project from brief:', error),
+  });
+
+  const handleSubmit = () => {
+    const { hasUnsavedChanges, projectName: currentName } = useCodebaseStore.getState();
+    if (hasUnsavedChanges && !window.confirm(`Replace '${currentName}' with the new project? Unsaved changes will be lost.`)) {
+      return;
+    }
+    draftMutation.mutate();
+  };
+
+  const error = draftMutation.error;
+  const canSubmit = projectName.trim() !== '' && brief.trim() !== '' && !draftMutation.isPending;
+
+  return (
+    <div className="project-brief__overlay" onClick={onClose}>
+      <div className="project-brief" onClick={(e) => e.stopPropagation()}>
+        <div className="project-brief__header">
+          <span>New project from a brief</span>
+          <button className="project-brief__close" onClick={onClose} title="Close">×</button>
+        </div>
+
+        <div className="project-brief__body">
+          <label className="project-brief__field">
+            <span>Project name</span>
+            <input type="text" value={projectName} onChange={(e) => setProjectName(e.target.value)} disabled={draftMutation.isPending} />
+          </label>
+          <label className="project-brief__field">
+            <span>Describe the system in a paragraph: what it does, for whom, and its main steps.</span>
+            <textarea
+              value={brief}
+              onChange={(e) => setBrief(e.target.value)}
+              placeholder="An expense tracker: users photograph receipts, the amounts and categories are extracted, and a monthly report is sent to the accountant."
+              rows={7}
+              disabled={draftMutation.isPending}
+              autoFocus
+            />
+          </label>
+
+          {draftMutation.isPending && (
+            <div className="project-brief__status">
+              Drafting… {functionCount} function{functionCount === 1 ? '' : 's'} so far
+            </div>
+          )}
+          {error && (
+            <div className="project-brief__error">
+              {error instanceof CodegenError ? describeCodegenError(error) : error.message}
+              {isProjectOpened && ` The project '${projectName.trim()}' was kept with the functions drafted so far; save it to keep them.`}
+            </div>
+          )}
+        </div>
+
+        <div className="project-brief__footer">
+          <button onClick={onClose}>{draftMutation.isPending ? 'Close' : 'Cancel'}</button>
+          <button className="project-brief__submit" onClick={handleSubmit} disabled={!canSubmit}>
+            {draftMutation.isPending ? 'Drafting…' : 'Draft project'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -16,10 +16,25 @@ import ReactFlow, {
 import 'reactflow/dist/style.css';
 
 import FunctionNode from './FunctionNode';
+import ProjectPicker from './ProjectPicker';
+import SnapshotMenu from './SnapshotMenu';
+import TargetLanguagePicker from './TargetLanguagePicker';
+import CodegenModeToggles from './CodegenModeToggles';
+import UsagePanel from './UsagePanel';
+import PromptSettingsPanel from './PromptSettingsPanel';
+import CodegenJobsPanel from './CodegenJobsPanel';
+import ProjectFileActions, { importProjectFile } from './ProjectFileActions';
 import { useCodebaseStore } from '../../store/useCodebaseStore';
 import { findOptimalNodePlacement, centerViewportOnNode } from '../../utils/nodePlacement';
 import { NODE_WIDTH, NODE_MIN_HEIGHT, calculateNodeHeight } from '../../constants/nodeConstants';
 import { CodeFunction, CodeAspect, AspectState } from '../../store/codebase.types';
+import {
+  readAutosavedSession,
+  restoreAutosavedSession,
+  clearAutosavedSession,
+  startAutosave,
+  type AutosavedSession,
+} from '../../data/autosave';
 import './ProjectCanvas.css';
 
 // Define nodeTypes and edgeTypes outside the component for stability
@@ -89,17 +104,107 @@ function buildEdges(nodes: Node[], codeFunctions: any[]): Edge[] {
 }
 
 export default function ProjectCanvas() {
-  const { projectName, updateProjectName, codeFunctions, addCodeFunction, updateCodeFunction, setNodePosition, loadProjectFromFile } = useCodebaseStore();
+  const { projectName, updateProjectName, codeFunctions, addCodeFunction, updateCodeFunction, setNodePosition, viewport, updateViewport, loadProjectFromUrl, lastMigration, loadError, undo, redo } = useCodebaseStore();
   const [isEditingProjectName, setIsEditingProjectName] = useState(false);
   const [editValue, setEditValue] = useState(projectName);
   const [newlyCreatedNodeIndex, setNewlyCreatedNodeIndex] = useState<string | null>(null);
+  const [recoverableSession, setRecoverableSession] = useState<AutosavedSession | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const stopAutosaveRef = useRef<(() => void) | null>(null);
   const { setViewport, getViewport, screenToFlowPosition } = useReactFlow();
 
-  // Load project data from external JSON on mount
+  const beginAutosave = useCallback(() => {
+    stopAutosaveRef.current?.();
+    stopAutosaveRef.current = startAutosave();
+  }, []);
+
+  // Load project data from external JSON on mount. If the last session was left with
+  // unsaved changes, offer to restore it; autosave only starts once that is decided.
+  useEffect(() => {
+    let cancelled = false;
+
+    const initialize = async () => {
+      const session = await readAutosavedSession().catch((error) => {
+        console.warn('[WARN] Could not read autosaved session:', error);
+        return null;
+      });
+      await loadProjectFromUrl().catch(() => {
+        // Reported via the store's loadError
+      });
+      if (cancelled) return;
+
+      if (session) {
+        setRecoverableSession(session);
+      } else {
+        beginAutosave();
+      }
+    };
+    initialize();
+
+    return () => {
+      cancelled = true;
+      stopAutosaveRef.current?.();
+      stopAutosaveRef.current = null;
+    };
+  }, [loadProjectFromUrl, beginAutosave]);
+
+  const handleRestoreSession = async () => {
+    if (!recoverableSession) return;
+    try {
+      await restoreAutosavedSession(recoverableSession);
+    } catch {
+      // Reported via the store's loadError; the autosaved session is kept until the next edit
+    }
+    setRecoverableSession(null);
+    beginAutosave();
+  };
+
+  const handleDiscardSession = async () => {
+    setRecoverableSession(null);
+    await clearAutosavedSession();
+    beginAutosave();
+  };
+
+  // Accept project files dropped anywhere on the canvas
+  const handleDragOver = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes('Files')) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    e.preventDefault();
+    importProjectFile(file);
+  };
+
+  // Restore the viewport stored with a loaded project (no-op when it came from panning/zooming)
+  useEffect(() => {
+    if (viewport) {
+      setViewport(viewport);
+    }
+  }, [viewport, setViewport]);
+
+  // Undo / redo shortcuts (Ctrl+Z / Ctrl+Shift+Z, Cmd on macOS). Text fields keep their own undo.
   useEffect(() => {
-    loadProjectFromFile();
-  }, [loadProjectFromFile]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   // Sync editValue when projectName changes from store
   useEffect(() => {
@@ -243,9 +348,18 @@ export default function ProjectCanvas() {
   }, [codeFunctions, nodes]);
 
   return (
-      <div className="project-canvas">
+      <div className="project-canvas" onDragOver={handleDragOver} onDrop={handleDrop}>
         {/* Project Banner */}
         <div className="project-canvas__banner">
+          <div className="project-canvas__banner-left">
+            <ProjectPicker />
+            <SnapshotMenu />
+            <TargetLanguagePicker />
+            <CodegenModeToggles />
+            <UsagePanel />
+            <PromptSettingsPanel />
+          </div>
+          <ProjectFileActions />
           <div className="project-canvas__banner-content">
             {isEditingProjectName ? (
               <input
@@ -271,6 +385,48 @@ export default function ProjectCanvas() {
           </div>
         </div>
 
+        {/* Crash recovery offer */}
+        {recoverableSession && (
+          <div className="project-canvas__recovery">
+            <span>
+              Unsaved changes to <strong>{recoverableSession.projectData.projectName}</strong> from{' '}
+              {new Date(recoverableSession.savedAt).toLocaleString()} were found.
+            </span>
+            <button onClick={handleRestoreSession}>Restore</button>
+            <button onClick={handleDiscardSession}>Discard</button>
+          </div>
+        )}
+
+        {/* Failed load: the current project stays on the canvas */}
+        {loadError && (
+          <div className="project-canvas__error">
+            <div className="project-canvas__error-header">
+              <span>
+                Could not load <strong>{loadError.source}</strong>: {loadError.message} The current project was kept.
+              </span>
+              <button onClick={() => useCodebaseStore.setState({ loadError: null })}>Dismiss</button>
+            </div>
+            {loadError.details.length > 0 && (
+              <ul className="project-canvas__error-details">
+                {loadError.details.map((detail, index) => (
+                  <li key={index}>{detail}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Schema upgrade report for the loaded file */}
+        {lastMigration && (
+          <div className="project-canvas__notice">
+            <span>
+              This project was upgraded from format {lastMigration.fromVersion} to {lastMigration.toVersion}
+              {lastMigration.changes.length > 0 && ': ' + lastMigration.changes.join('; ')}. Save to keep the upgrade.
+            </span>
+            <button onClick={() => useCodebaseStore.setState({ lastMigration: null })}>Dismiss</button>
+          </div>
+        )}
+
         {/* Canvas Area */}
         <div className="project-canvas__diagram">
           <ReactFlow
@@ -314,12 +470,16 @@ export default function ProjectCanvas() {
               ));
             }}
             onDoubleClick={handleCanvasDoubleClick}
+            onMoveEnd={(e, viewport) => updateViewport(viewport)}
             defaultEdgeOptions={{
               animated: false,
             }}
           >
             <Background />
             <Controls />
+            <Panel position="top-right">
+              <CodegenJobsPanel />
+            </Panel>
             {/* <Panel position="top-right" className="react-flow__panel">
               <div style={{ fontSize: '12px' }}>Drag nodes by their header</div>
             </Panel> */}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useRef } from 'react';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import { projectDataFromState } from '@/data/dataLoader';
+import { slugifyProjectName } from '@/utils/projectNames';
+import { createZipArchive } from '@/utils/zipArchive';
+import { buildSourcePackage } from '@/features/export/sourcePackage';
+import { TARGET_LANGUAGES } from '@/features/codegen/codegenLanguages';
+
+import './ProjectFileActions.css';
+
+/**
+ * Imports a project file into the store, replacing the current project.
+ * Shared by the "Import" button and dropping a file onto the canvas.
+ */
+export async function importProjectFile(file: File): Promise<void> {
+  const { hasUnsavedChanges, projectName, loadProjectFromFile } = useCodebaseStore.getState();
+  if (hasUnsavedChanges && !window.confirm(`Replace '${projectName}' with '${file.name}'? Unsaved changes will be lost.`)) {
+    return;
+  }
+
+  try {
+    await loadProjectFromFile(file);
+  } catch {
+    // The store records the error (shown by ProjectCanvas) and keeps the current project
+  }
+}
+
+// Trigger a browser download of the given content (used by both exports)
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // The download starts asynchronously; revoking the URL right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Trigger a browser download of the current project as a ProjectData JSON file
+function exportProjectFile() {
+  const state = useCodebaseStore.getState();
+  const projectData = projectDataFromState(state);
+
+  const blob = new Blob([JSON.stringify(projectData, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `${slugifyProjectName(state.projectName)}.json`);
+}
+
+// Trigger a browser download of the project as a source package (zip) in its target language
+function exportSourcePackage() {
+  const state = useCodebaseStore.getState();
+  const archive = createZipArchive(buildSourcePackage(state));
+
+  const blob = new Blob([archive], { type: 'application/zip' });
+  downloadBlob(blob, `${slugifyProjectName(state.projectName)}-${state.targetLanguage}.zip`);
+}
+
+/**
+ * "Export" / "Import" buttons in the project banner for sharing project files,
+ * and "Export code" for downloading the project as a source package.
+ */
+export default function ProjectFileActions() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const targetLanguage = useCodebaseStore((state) => state.targetLanguage);
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (file) {
+      await importProjectFile(file);
+    }
+  };
+
+  return (
+    <div className="project-file-actions">
+      <button
+        className="project-file-actions__button"
+        onClick={exportProjectFile}
+        title="Download the project (including layout) as a JSON file"
+      >
+        Export project
+      </button>
+      <button
+        className="project-file-actions__button"
+        onClick={() => fileInputRef.current?.click()}
+        title="Load a project JSON file (you can also drop it onto the canvas)"
+      >
+        Import project
+      </button>
+      <button
+        className="project-file-actions__button"
+        onClick={exportSourcePackage}
+        title={`Download the functions as a ${TARGET_LANGUAGES[targetLanguage].label} source package (zip), with stubs where no code was generated yet`}
+      >
+        Export code
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChosen}
+        style={{ display: 'none' }}
+      />
+    </div>
+  );
+}
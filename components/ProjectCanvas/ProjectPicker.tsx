@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import {
+  listProjects,
+  createProject,
+  renameProject,
+  duplicateProject,
+  deleteProject,
+} from '@/app/actions/projects';
+
+import ProjectBriefDialog from './ProjectBriefDialog';
+
+import './ProjectPicker.css';
+
+const PROJECTS_QUERY_KEY = ['workspaceProjects'];
+
+// Ask before replacing a project with unsaved changes (like importing a file)
+const confirmReplace = (replacement: string): boolean => {
+  const { hasUnsavedChanges, projectName } = useCodebaseStore.getState();
+  return !hasUnsavedChanges || window.confirm(`Replace '${projectName}' with ${replacement}? Unsaved changes will be lost.`);
+};
+
+/**
+ * Dropdown in the project banner to list, open, create, save, rename,
+ * duplicate and delete projects in the server-side workspace.
+ */
+export default function ProjectPicker() {
+  const { currentProjectId, openWorkspaceProject, saveWorkspaceProject } = useCodebaseStore();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBriefOpen, setIsBriefOpen] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null); // Last failed workspace operation
+
+  const projectsQuery = useQuery({
+    queryKey: PROJECTS_QUERY_KEY,
+    queryFn: () => listProjects(),
+    enabled: isOpen,
+  });
+
+  // All workspace operations refresh the project list once they're done
+  const refreshProjects = () => queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY });
+
+  // Failed operations are shown below the buttons until dismissed or the next one succeeds
+  const reportFailure = (action: string) => (error: Error) => setActionError(`Could not ${action}: ${error.message}`);
+  const reportSuccess = () => {
+    setActionError(null);
+    return refreshProjects();
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveWorkspaceProject(),
+    onSuccess: reportSuccess,
+    onError: reportFailure('save the project'),
+  });
+
+  const openMutation = useMutation({
+    mutationFn: (id: string) => openWorkspaceProject(id),
+    onSuccess: () => {
+      setActionError(null);
+      setIsOpen(false);
+    },
+    onError: reportFailure('open the project'),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (projectName: string) => {
+      const summary = await createProject(projectName);
+      await openWorkspaceProject(summary.id);
+    },
+    onSuccess: () => {
+      reportSuccess();
+      setIsOpen(false);
+    },
+    onError: reportFailure('create the project'),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, newName }: { id: string; newName: string }) => {
+      const summary = await renameProject(id, newName);
+      // Keep the canvas bound to the renamed file (the file already holds the new name)
+      if (id === currentProjectId) {
+        useCodebaseStore.setState({ currentProjectId: summary.id, projectName: newName });
+      }
+    },
+    onSuccess: reportSuccess,
+    onError: reportFailure('rename the project'),
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: (id: string) => duplicateProject(id),
+    onSuccess: reportSuccess,
+    onError: reportFailure('duplicate the project'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await deleteProject(id);
+      // The canvas keeps its content, but is no longer bound to a file
+      if (id === currentProjectId) {
+        useCodebaseStore.setState({ currentProjectId: null });
+      }
+    },
+    onSuccess: reportSuccess,
+    onError: reportFailure('delete the project'),
+  });
+
+  const handleOpen = (id: string, projectName: string) => {
+    if (confirmReplace(`'${projectName}'`)) openMutation.mutate(id);
+  };
+
+  const handleCreate = () => {
+    const projectName = window.prompt('Name of the new project:', 'New Project')?.trim();
+    if (projectName && confirmReplace('a new project')) createMutation.mutate(projectName);
+  };
+
+  const handleRename = (id: string, currentName: string) => {
+    const newName = window.prompt('Rename project to:', currentName)?.trim();
+    if (newName && newName !== currentName) renameMutation.mutate({ id, newName });
+  };
+
+  const handleDelete = (id: string, projectName: string) => {
+    if (window.confirm(`Delete project '${projectName}'? This cannot be undone.`)) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  // Floats below the buttons, or heads the dropdown while it is open
+  const errorBanner = (
+    <div className={`project-picker__error ${isOpen ? 'inline' : ''}`}>
+      <span>{actionError}</span>
+      <button onClick={() => setActionError(null)}>Dismiss</button>
+    </div>
+  );
+
+  return (
+    <div className="project-picker">
+      <button
+        className="project-picker__button"
+        onClick={() => setIsOpen((open) => !open)}
+        title="Open, create and manage projects"
+      >
+        Projects ▾
+      </button>
+      <button
+        className="project-picker__button"
+        onClick={() => saveMutation.mutate()}
+        disabled={saveMutation.isPending}
+        title={currentProjectId ? `Save to workspace as '${currentProjectId}'` : 'Save as a new workspace project'}
+      >
+        {saveMutation.isPending ? 'Saving…' : 'Save'}
+      </button>
+
+      {actionError && !isOpen && errorBanner}
+
+      {isOpen && (
+        <div className="project-picker__dropdown">
+          {actionError && errorBanner}
+          <button className="project-picker__new" onClick={handleCreate} disabled={createMutation.isPending}>
+            + New project
+          </button>
+          <button
+            className="project-picker__new"
+            onClick={() => {
+              setIsOpen(false);
+              setIsBriefOpen(true);
+            }}
+            title="Describe the system and let the LLM draft its functions"
+          >
+            + New project from brief…
+          </button>
+
+          {projectsQuery.isLoading && <div className="project-picker__status">Loading projects…</div>}
+          {projectsQuery.isError && <div className="project-picker__status">Could not load projects.</div>}
+          {projectsQuery.data?.length === 0 && <div className="project-picker__status">No saved projects yet.</div>}
+
+          <ul className="project-picker__list">
+            {projectsQuery.data?.map((project) => (
+              <li
+                key={project.id}
+                className={`project-picker__item ${project.id === currentProjectId ? 'current' : ''}`}
+              >
+                <span
+                  className="project-picker__name"
+                  onClick={() => handleOpen(project.id, project.projectName)}
+                  title={`Open '${project.projectName}'`}
+                >
+                  {project.projectName}
+                  <span className="project-picker__meta">
+                    {project.functionCount} functions
+                    {project.modified && ` · ${new Date(project.modified).toLocaleString()}`}
+                  </span>
+                </span>
+                <span className="project-picker__actions">
+                  <span onClick={() => handleRename(project.id, project.projectName)} title="Rename">✏️</span>
+                  <span onClick={() => duplicateMutation.mutate(project.id)} title="Duplicate">⧉</span>
+                  <span onClick={() => handleDelete(project.id, project.projectName)} title="Delete">×</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isBriefOpen && <ProjectBriefDialog onClose={() => setIsBriefOpen(false)} onCreated={refreshProjects} />}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import { CodeAspectType, type PromptSettings } from '@/store/codebase.types';
+import type { CodegenTrigger } from '@/features/codegen/codegenBackend';
+import { packageCodebaseState } from '@/features/codegen/codegenPackaging';
+import { calculateAspectsToGenerate } from '@/features/codegen/codegenFrontend';
+import {
+  DEFAULT_SYSTEM_PROMPT_TEMPLATE,
+  DEFAULT_USER_PROMPT_TEMPLATE,
+  PROMPT_VARIABLES,
+  buildCodegenPrompt,
+  buildSystemPrompt,
+  getPromptTemplate,
+} from '@/features/codegen/codegenPrompt';
+
+import './PromptSettingsPanel.css';
+
+type PromptKind = 'system' | 'user';
+
+const DEFAULT_TEMPLATES: Record<PromptKind, string> = {
+  system: DEFAULT_SYSTEM_PROMPT_TEMPLATE,
+  user: DEFAULT_USER_PROMPT_TEMPLATE,
+};
+
+const isDefaultTemplate = (kind: PromptKind, template: string) => template.trim() === DEFAULT_TEMPLATES[kind].trim();
+
+// Templates equal to the default aren't stored, so the project keeps following the default
+const toPromptSettings = (templates: Record<PromptKind, string>, glossary: string): PromptSettings => ({
+  ...(!isDefaultTemplate('system', templates.system) ? { systemTemplate: templates.system } : {}),
+  ...(!isDefaultTemplate('user', templates.user) ? { userTemplate: templates.user } : {}),
+  ...(glossary.trim() ? { glossary } : {}),
+});
+
+/**
+ * Modal for the project's prompt settings: the system and user prompt
+ * templates, the glossary, and a preview of the prompts they produce for an
+ * edit of a function's specification. Changes apply when saved.
+ */
+function PromptSettingsDialog({ onClose }: { onClose: () => void }) {
+  const promptSettings = useCodebaseStore((state) => state.promptSettings);
+  const setPromptSettings = useCodebaseStore((state) => state.setPromptSettings);
+  const codeFunctions = useCodebaseStore((state) => state.codeFunctions);
+  const projectName = useCodebaseStore((state) => state.projectName);
+  const targetLanguage = useCodebaseStore((state) => state.targetLanguage);
+  const [templates, setTemplates] = useState<Record<PromptKind, string>>({
+    system: getPromptTemplate(promptSettings, 'system'),
+    user: getPromptTemplate(promptSettings, 'user'),
+  });
+  const [glossary, setGlossary] = useState(promptSettings.glossary ?? '');
+  const [previewKind, setPreviewKind] = useState<PromptKind>('user');
+  const [previewFunctionIndex, setPreviewFunctionIndex] = useState(0);
+
+  // Repackaged only when something that goes into the snapshot changes
+  const snapshot = useMemo(
+    () => packageCodebaseState({ codeFunctions, projectName, targetLanguage }),
+    [codeFunctions, projectName, targetLanguage]
+  );
+  const previewFunction = snapshot.functions[previewFunctionIndex];
+  const preview = useMemo(() => {
+    if (!previewFunction) return null;
+    const trigger: CodegenTrigger = {
+      modifiedFunction: previewFunction,
+      modifiedAspect: CodeAspectType.SPECIFICATION,
+      aspectsToGenerate: calculateAspectsToGenerate(CodeAspectType.SPECIFICATION, previewFunction),
+      prompts: toPromptSettings(templates, glossary),
+    };
+    return previewKind === 'system' ? buildSystemPrompt(snapshot, trigger) : buildCodegenPrompt(snapshot, trigger);
+  }, [snapshot, previewFunction, previewKind, templates, glossary]);
+
+  const handleSave = () => {
+    setPromptSettings(toPromptSettings(templates, glossary));
+    onClose();
+  };
+
+  const renderTemplate = (kind: PromptKind, label: string) => (
+    <section className="prompt-settings__section">
+      <div className="prompt-settings__section-header">
+        <h3>{label}</h3>
+        {!isDefaultTemplate(kind, templates[kind]) && <span className="prompt-settings__custom">customized</span>}
+        <button
+          className="prompt-settings__reset"
+          onClick={() => setTemplates((current) => ({ ...current, [kind]: DEFAULT_TEMPLATES[kind] }))}
+          disabled={isDefaultTemplate(kind, templates[kind])}
+        >
+          Reset to default
+        </button>
+      </div>
+      <textarea
+        className="prompt-settings__template"
+        value={templates[kind]}
+        onChange={(e) => setTemplates((current) => ({ ...current, [kind]: e.target.value }))}
+        spellCheck={false}
+        rows={kind === 'system' ? 14 : 8}
+      />
+    </section>
+  );
+
+  return (
+    <div className="prompt-settings__overlay" onClick={onClose}>
+      <div className="prompt-settings" onClick={(e) => e.stopPropagation()}>
+        <div className="prompt-settings__header">
+          <span>Prompt settings</span>
+          <button className="prompt-settings__close" onClick={onClose} title="Close">×</button>
+        </div>
+
+        <div className="prompt-settings__body">
+          <p className="prompt-settings__hint">
+            The prompts sent to the LLM for this project. Variables are written as <code>{'{{name}}'}</code>:
+          </p>
+          <ul className="prompt-settings__variables">
+            {PROMPT_VARIABLES.map((variable) => (
+              <li key={variable.name}>
+                <code>{`{{${variable.name}}}`}</code> {variable.description}
+              </li>
+            ))}
+          </ul>
+
+          {renderTemplate('system', 'System prompt')}
+          {renderTemplate('user', 'User prompt')}
+
+          <section className="prompt-settings__section">
+            <div className="prompt-settings__section-header">
+              <h3>Glossary</h3>
+            </div>
+            <textarea
+              className="prompt-settings__template"
+              value={glossary}
+              onChange={(e) => setGlossary(e.target.value)}
+              placeholder={'One term per line, e.g.\nledger: the list of all bookings of an account'}
+              rows={4}
+            />
+          </section>
+
+          <section className="prompt-settings__section">
+            <div className="prompt-settings__section-header">
+              <h3>Preview</h3>
+              <select value={previewKind} onChange={(e) => setPreviewKind(e.target.value as PromptKind)}>
+                <option value="system">System prompt</option>
+                <option value="user">User prompt</option>
+              </select>
+              <span>for an edit of the specification of</span>
+              <select value={previewFunctionIndex} onChange={(e) => setPreviewFunctionIndex(Number(e.target.value))}>
+                {snapshot.functions.map((func, index) => (
+                  <option key={index} value={index}>{func.identifier.descriptor || '(unnamed)'}</option>
+                ))}
+              </select>
+            </div>
+            {preview !== null ? (
+              <pre className="prompt-settings__preview">{preview}</pre>
+            ) : (
+              <div className="prompt-settings__hint">Add a function to see a preview.</div>
+            )}
+            <div className="prompt-settings__hint">The server may shorten the snapshot to fit its context budget.</div>
+          </section>
+        </div>
+
+        <div className="prompt-settings__footer">
+          <button onClick={onClose}>Cancel</button>
+          <button className="prompt-settings__save" onClick={handleSave}>Save</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Banner button opening the prompt settings of the project.
+ */
+export default function PromptSettingsPanel() {
+  const promptSettings = useCodebaseStore((state) => state.promptSettings);
+  const [isOpen, setIsOpen] = useState(false);
+  const isCustomized = Object.keys(promptSettings).length > 0;
+
+  return (
+    <>
+      <button
+        className="prompt-settings__button"
+        onClick={() => setIsOpen(true)}
+        title="Edit the prompt templates and the glossary of this project"
+      >
+        Prompts{isCustomized ? ' (custom)' : ''}
+      </button>
+      {isOpen && <PromptSettingsDialog onClose={() => setIsOpen(false)} />}
+    </>
+  );
+}
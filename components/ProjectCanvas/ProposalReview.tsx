@@ -0,0 +1,109 @@
+'use client';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import { CommandType, type CodeGenCommand } from '@/features/codegen/codegenCommands';
+import { acceptCodegenProposals, rejectCodegenProposals } from '@/features/codegen/codegenFrontend';
+import { diffText } from '@/features/snapshots/projectDiff';
+import type { CodeFunction, CodegenProposal } from '@/store/codebase.types';
+
+import './ProposalReview.css';
+
+// What a proposal changes, as a label and the text before and after
+const describeProposal = (command: CodeGenCommand, target: CodeFunction | undefined) => {
+  switch (command.type) {
+    case CommandType.UPDATE_ASPECT:
+      return { label: command.aspect, before: target?.[command.aspect].descriptor ?? '', after: command.value };
+    case CommandType.UPDATE_METHOD_CODE:
+      return { label: 'code', before: target?.code ?? '', after: command.value };
+    case CommandType.CREATE_METHOD: {
+      const { identifier, signature, specification, implementation } = command.method;
+      return {
+        label: `new function ${identifier.descriptor ?? ''}`,
+        before: '',
+        after: [signature.descriptor, specification.descriptor, implementation.descriptor].filter(Boolean).join('\n'),
+      };
+    }
+    case CommandType.DELETE_METHOD:
+      return { label: 'delete this function', before: '', after: '' };
+  }
+};
+
+interface ProposalReviewProps {
+  functionId: string;
+}
+
+/**
+ * Pending proposals (propose mode) targeting one FunctionNode, grouped by
+ * change set, with an old/new diff per command. Each command can be accepted
+ * or rejected on its own; "Accept all" and "Reject all" cover the whole change
+ * set, including proposals shown on other nodes.
+ */
+export default function ProposalReview({ functionId }: ProposalReviewProps) {
+  const { proposals, codeFunctions } = useCodebaseStore();
+  const own = proposals.filter((p) => p.functionId === functionId);
+  if (own.length === 0) return null;
+
+  const target = codeFunctions.find((f) => f.id === functionId);
+  const changeSetIds = [...new Set(own.map((p) => p.changeSetId))];
+  const idsOf = (list: CodegenProposal[]) => list.map((p) => p.id);
+
+  return (
+    <div className="proposal-review noDrag nowheel">
+      {changeSetIds.map((changeSetId) => {
+        const changeSet = proposals.filter((p) => p.changeSetId === changeSetId);
+        const here = own.filter((p) => p.changeSetId === changeSetId);
+        const source = here[0].source;
+        return (
+          <div key={changeSetId} className="proposal-review__set">
+            <div className="proposal-review__header">
+              <span className="proposal-review__title">Proposed{source.kind === 'llm' && source.model ? ` by ${source.model}` : ''}</span>
+              <span
+                className="proposal-review__action"
+                onClick={(e) => { e.stopPropagation(); acceptCodegenProposals(idsOf(changeSet)); }}
+                title={changeSet.length > here.length ? 'Accept the whole change set, including the proposals on other functions' : 'Accept all proposals'}
+              >
+                Accept all{changeSet.length > here.length ? ` (${changeSet.length})` : ''}
+              </span>
+              <span
+                className="proposal-review__action"
+                onClick={(e) => { e.stopPropagation(); rejectCodegenProposals(idsOf(changeSet)); }}
+              >
+                Reject all
+              </span>
+            </div>
+            {source.kind === 'llm' && source.rationale && <div className="proposal-review__rationale">{source.rationale}</div>}
+
+            {here.map((proposal) => {
+              const { label, before, after } = describeProposal(proposal.command, target);
+              const lines = diffText(before, after);
+              return (
+                <div key={proposal.id} className="proposal-review__proposal">
+                  <div className="proposal-review__proposal-header">
+                    <span className="proposal-review__label">{label}</span>
+                    <span className="proposal-review__action" onClick={(e) => { e.stopPropagation(); acceptCodegenProposals([proposal.id]); }} title="Accept">
+                      ✓
+                    </span>
+                    <span className="proposal-review__action" onClick={(e) => { e.stopPropagation(); rejectCodegenProposals([proposal.id]); }} title="Reject">
+                      ✗
+                    </span>
+                  </div>
+                  {lines.length > 0 && (
+                    <pre className="proposal-review__diff">
+                      {lines.every((line) => line.type === 'same') && <div className="proposal-review__unchanged">(text unchanged)</div>}
+                      {lines.map((line, index) => (
+                        <div key={index} className={`proposal-review__line ${line.type}`}>
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                          {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import { CodeFunction } from '@/store/codebase.types';
+import { diffProjects, functionName, type FunctionDiff } from '@/features/snapshots/projectDiff';
+
+import './SnapshotCompare.css';
+
+/** Pseudo snapshot id standing for the functions currently on the canvas. */
+export const CURRENT_VERSION_ID = 'current';
+
+interface SnapshotCompareProps {
+  initialBeforeId: string;
+  initialAfterId: string;
+  onClose: () => void;
+}
+
+const displayName = (func: CodeFunction) => functionName(func) || '(unnamed)';
+
+function FunctionChanges({ diff }: { diff: FunctionDiff }) {
+  return (
+    <div className="snapshot-compare__function">
+      <div className="snapshot-compare__function-name">{displayName(diff.after)}</div>
+      {diff.aspects.map((aspectDiff) => (
+        <div key={aspectDiff.aspect} className="snapshot-compare__aspect">
+          <div className="snapshot-compare__aspect-name">{aspectDiff.aspect}</div>
+          <pre className="snapshot-compare__text-diff">
+            {aspectDiff.lines.map((line, index) => (
+              <div key={index} className={`snapshot-compare__line ${line.type}`}>
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Modal comparing two versions of the project (named snapshots or the current
+ * canvas): functions added, removed and renamed, and per-aspect text diffs.
+ */
+export default function SnapshotCompare({ initialBeforeId, initialAfterId, onClose }: SnapshotCompareProps) {
+  const { snapshots, codeFunctions } = useCodebaseStore();
+  const [beforeId, setBeforeId] = useState(initialBeforeId);
+  const [afterId, setAfterId] = useState(initialAfterId);
+
+  const versions = useMemo(
+    () => [
+      ...snapshots.map((snapshot) => ({ id: snapshot.id, label: snapshot.name, codeFunctions: snapshot.codeFunctions })),
+      { id: CURRENT_VERSION_ID, label: 'Current canvas', codeFunctions },
+    ],
+    [snapshots, codeFunctions]
+  );
+
+  const before = versions.find((version) => version.id === beforeId);
+  const after = versions.find((version) => version.id === afterId);
+  const diff = useMemo(
+    () => (before && after ? diffProjects(before.codeFunctions, after.codeFunctions) : null),
+    [before, after]
+  );
+
+  const renderVersionSelect = (value: string, onChange: (id: string) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)}>
+      {versions.map((version) => (
+        <option key={version.id} value={version.id}>{version.label}</option>
+      ))}
+    </select>
+  );
+
+  const isUnchanged = diff && diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+
+  return (
+    <div className="snapshot-compare__overlay" onClick={onClose}>
+      <div className="snapshot-compare" onClick={(e) => e.stopPropagation()}>
+        <div className="snapshot-compare__header">
+          <span>Compare</span>
+          {renderVersionSelect(beforeId, setBeforeId)}
+          <span>with</span>
+          {renderVersionSelect(afterId, setAfterId)}
+          <button className="snapshot-compare__close" onClick={onClose} title="Close">×</button>
+        </div>
+
+        {!diff && <div className="snapshot-compare__status">The selected snapshot no longer exists.</div>}
+        {isUnchanged && <div className="snapshot-compare__status">No differences.</div>}
+
+        {diff && !isUnchanged && (
+          <div className="snapshot-compare__body">
+            {diff.added.length > 0 && (
+              <section>
+                <h3>Added ({diff.added.length})</h3>
+                <ul>{diff.added.map((func) => <li key={func.id} className="added">{displayName(func)}</li>)}</ul>
+              </section>
+            )}
+            {diff.removed.length > 0 && (
+              <section>
+                <h3>Removed ({diff.removed.length})</h3>
+                <ul>{diff.removed.map((func) => <li key={func.id} className="removed">{displayName(func)}</li>)}</ul>
+              </section>
+            )}
+            {diff.renamed.length > 0 && (
+              <section>
+                <h3>Renamed ({diff.renamed.length})</h3>
+                <ul>
+                  {diff.renamed.map((renamed) => (
+                    <li key={renamed.after.id}>{displayName(renamed.before)} → {displayName(renamed.after)}</li>
+                  ))}
+                </ul>
+              </section>
+            )}
+            {diff.changed.length > 0 && (
+              <section>
+                <h3>Changed ({diff.changed.length})</h3>
+                {diff.changed.map((changed) => <FunctionChanges key={changed.after.id} diff={changed} />)}
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
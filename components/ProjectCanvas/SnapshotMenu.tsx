@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import SnapshotCompare, { CURRENT_VERSION_ID } from './SnapshotCompare';
+
+import './SnapshotMenu.css';
+
+/**
+ * Dropdown in the project banner to save, restore, delete and compare named
+ * snapshots of the project.
+ */
+export default function SnapshotMenu() {
+  const { snapshots, createSnapshot, restoreSnapshot, deleteSnapshot } = useCodebaseStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [comparison, setComparison] = useState<{ beforeId: string; afterId: string } | null>(null);
+
+  const handleCreate = () => {
+    const name = window.prompt('Name of the snapshot:', `Snapshot ${snapshots.length + 1}`)?.trim();
+    if (name) createSnapshot(name);
+  };
+
+  const handleRestore = (id: string, name: string) => {
+    if (window.confirm(`Replace the current functions with snapshot '${name}'? You can undo this with Ctrl+Z.`)) {
+      restoreSnapshot(id);
+      setIsOpen(false);
+    }
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (window.confirm(`Delete snapshot '${name}'?`)) {
+      deleteSnapshot(id);
+    }
+  };
+
+  const openComparison = (beforeId: string, afterId: string = CURRENT_VERSION_ID) => {
+    setComparison({ beforeId, afterId });
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="snapshot-menu">
+      <button
+        className="snapshot-menu__button"
+        onClick={() => setIsOpen((open) => !open)}
+        title="Save, restore and compare named snapshots of this project"
+      >
+        Snapshots ▾
+      </button>
+
+      {isOpen && (
+        <div className="snapshot-menu__dropdown">
+          <button className="snapshot-menu__new" onClick={handleCreate}>
+            + Save snapshot
+          </button>
+          {snapshots.length > 1 && (
+            <button
+              className="snapshot-menu__new"
+              onClick={() => openComparison(snapshots[snapshots.length - 2].id, snapshots[snapshots.length - 1].id)}
+            >
+              ⇄ Compare snapshots…
+            </button>
+          )}
+
+          {snapshots.length === 0 && <div className="snapshot-menu__status">No snapshots yet.</div>}
+
+          <ul className="snapshot-menu__list">
+            {[...snapshots].reverse().map((snapshot) => (
+              <li key={snapshot.id} className="snapshot-menu__item">
+                <span className="snapshot-menu__name">
+                  {snapshot.name}
+                  <span className="snapshot-menu__meta">
+                    {snapshot.codeFunctions.length} functions · {new Date(snapshot.created).toLocaleString()}
+                  </span>
+                </span>
+                <span className="snapshot-menu__actions">
+                  <span onClick={() => openComparison(snapshot.id)} title="Compare with the current canvas">⇄</span>
+                  <span onClick={() => handleRestore(snapshot.id, snapshot.name)} title="Restore">↺</span>
+                  <span onClick={() => handleDelete(snapshot.id, snapshot.name)} title="Delete">×</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {comparison && (
+        <SnapshotCompare
+          initialBeforeId={comparison.beforeId}
+          initialAfterId={comparison.afterId}
+          onClose={() => setComparison(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import { TARGET_LANGUAGES } from '@/features/codegen/codegenLanguages';
+import type { TargetLanguage } from '@/store/codebase.types';
+
+import './TargetLanguagePicker.css';
+
+/**
+ * Banner selector for the project's target language, in which the functions'
+ * source code is generated. Existing code is kept until it is regenerated.
+ */
+export default function TargetLanguagePicker() {
+  const { targetLanguage, setTargetLanguage } = useCodebaseStore();
+
+  return (
+    <label className="target-language-picker" title="Language of the generated source code">
+      <span className="target-language-picker__label">Code:</span>
+      <select
+        className="target-language-picker__select"
+        value={targetLanguage}
+        onChange={(e) => setTargetLanguage(e.target.value as TargetLanguage)}
+      >
+        {Object.entries(TARGET_LANGUAGES).map(([language, info]) => (
+          <option key={language} value={language}>
+            {info.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import { formatUsd, isBudgetExhausted, summarizeUsage, summarizeUsageByFunction } from '@/features/codegen/codegenUsage';
+
+import './UsagePanel.css';
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+/**
+ * Dropdown in the project banner with the project's codegen usage: running
+ * totals, a per-function breakdown and the optional budget in USD.
+ */
+export default function UsagePanel() {
+  const { usageRecords, usageBudget, codeFunctions, setUsageBudget, clearUsageRecords } = useCodebaseStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const total = summarizeUsage(usageRecords);
+  const byFunction = summarizeUsageByFunction(usageRecords);
+  const exhausted = isBudgetExhausted(usageRecords, usageBudget);
+
+  const handleBudgetChange = (value: string) => {
+    const budget = Number.parseFloat(value);
+    setUsageBudget(value.trim() === '' || !Number.isFinite(budget) || budget < 0 ? null : budget);
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Delete the usage records of this project? The budget starts over.')) {
+      clearUsageRecords();
+    }
+  };
+
+  return (
+    <div className="usage-panel">
+      <button
+        className={`usage-panel__button ${exhausted ? 'exhausted' : ''}`}
+        onClick={() => setIsOpen((open) => !open)}
+        title="Token usage and cost of code generation in this project"
+      >
+        Usage: {formatUsd(total.costUsd)}{usageBudget !== null ? ` / ${formatUsd(usageBudget)}` : ''} ▾
+      </button>
+
+      {isOpen && (
+        <div className="usage-panel__dropdown">
+          <div className="usage-panel__totals">
+            <div>{total.calls} codegen call{total.calls === 1 ? '' : 's'}</div>
+            <div>
+              {formatTokens(total.inputTokens)} input · {formatTokens(total.outputTokens)} output tokens
+            </div>
+            <div>
+              {formatUsd(total.costUsd)}
+              {total.unpricedCalls > 0 && ` (+${total.unpricedCalls} call${total.unpricedCalls === 1 ? '' : 's'} of models without a known price)`}
+            </div>
+            {total.calls > 0 && <div>{(total.latencyMs / total.calls / 1000).toFixed(1)} s per call on average</div>}
+          </div>
+
+          <label className="usage-panel__budget">
+            <span>Budget (USD)</span>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              placeholder="none"
+              value={usageBudget ?? ''}
+              onChange={(e) => handleBudgetChange(e.target.value)}
+            />
+          </label>
+          {exhausted && <div className="usage-panel__exhausted">Budget used up: code generation is blocked.</div>}
+
+          {byFunction.length > 0 && (
+            <table className="usage-panel__table">
+              <thead>
+                <tr>
+                  <th>Function</th>
+                  <th>Calls</th>
+                  <th>Tokens</th>
+                  <th>Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {byFunction.map((entry) => {
+                  const current = codeFunctions.find((f) => f.id === entry.functionId);
+                  return (
+                    <tr key={entry.functionId} className={current ? '' : 'deleted'} title={current ? undefined : 'Deleted function'}>
+                      <td>{current?.identifier.descriptor || entry.functionName}</td>
+                      <td>{entry.calls}</td>
+                      <td>{formatTokens(entry.inputTokens + entry.outputTokens)}</td>
+                      <td>{entry.unpricedCalls === entry.calls ? '–' : formatUsd(entry.costUsd)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {usageRecords.length > 0 && (
+            <button className="usage-panel__reset" onClick={handleReset}>
+              Reset usage
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { ProjectData } from './projectSchema';
+import { projectDataFromState } from './dataLoader';
+import { useCodebaseStore } from '../store/useCodebaseStore';
+
+/**
+ * Browser-side autosave of the current session to IndexedDB.
+ *
+ * The session is stored in the same `ProjectData` format that is written to
+ * the server workspace, so a recovered session loads through the exact same
+ * path as a saved project. Only sessions with unsaved changes are kept; once
+ * the project is loaded or saved cleanly, the autosave entry is cleared.
+ */
+
+const DB_NAME = 'code-brainstormer-lm';
+const DB_VERSION = 1;
+const STORE_NAME = 'autosave';
+const SESSION_KEY = 'session';
+
+export interface AutosavedSession {
+  projectData: ProjectData;
+  currentProjectId: string | null; // Workspace project the session belonged to
+  savedAt: string; // ISO timestamp
+}
+
+// Single shared connection, so that writes are queued in the order they were issued
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run a single request against the autosave object store
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readAutosavedSession = async (): Promise<AutosavedSession | null> => {
+  const session = await withStore<AutosavedSession | undefined>('readonly', (store) => store.get(SESSION_KEY));
+  return session ?? null;
+};
+
+export const writeAutosavedSession = async (session: AutosavedSession): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(session, SESSION_KEY));
+};
+
+export const clearAutosavedSession = async (): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(SESSION_KEY));
+};
+
+/**
+ * Loads an autosaved session into the store. It stays marked as unsaved, so
+ * autosave keeps protecting it until the user saves to the workspace.
+ */
+export const restoreAutosavedSession = async (session: AutosavedSession): Promise<void> => {
+  await useCodebaseStore.getState().loadProject(session.projectData, session.currentProjectId);
+  useCodebaseStore.setState({ hasUnsavedChanges: true });
+};
+
+/**
+ * Starts persisting the store on every committed change of the functions,
+ * project name or viewport. Returns an unsubscribe function.
+ *
+ * Must only be started after a recoverable session has been restored or
+ * discarded, otherwise the initial project load would overwrite it.
+ */
+export const startAutosave = (): (() => void) => {
+  return useCodebaseStore.subscribe((state, prevState) => {
+    const persistedStateChanged =
+      state.codeFunctions !== prevState.codeFunctions ||
+      state.projectName !== prevState.projectName ||
+      state.viewport !== prevState.viewport ||
+      state.snapshots !== prevState.snapshots ||
+      state.targetLanguage !== prevState.targetLanguage ||
+      state.rippleCallers !== prevState.rippleCallers ||
+      state.proposeChanges !== prevState.proposeChanges ||
+      state.usageRecords !== prevState.usageRecords ||
+      state.usageBudget !== prevState.usageBudget ||
+      state.promptSettings !== prevState.promptSettings ||
+      state.hasUnsavedChanges !== prevState.hasUnsavedChanges;
+    if (!persistedStateChanged) return;
+
+    const write = state.hasUnsavedChanges
+      ? writeAutosavedSession({
+          projectData: projectDataFromState(state),
+          currentProjectId: state.currentProjectId,
+          savedAt: new Date().toISOString(),
+        })
+      : clearAutosavedSession();
+
+    write.catch((error) => console.warn('[WARN] Autosave failed:', error));
+  });
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+
+import { AspectState, CodeAspect, CodeAspectType, CodeFunction, type AspectRevision, type ProjectSnapshot } from '../store/codebase.types';
+import { parseProjectData, saveProjectData } from './dataLoader';
+
+const revision = (descriptor: string, source: AspectRevision['source']): AspectRevision => ({
+  descriptor,
+  source,
+  timestamp: '2025-01-01T12:00:00.000Z',
+});
+
+const makeFunction = (name: string, id: string, position: { x: number; y: number }) =>
+  new CodeFunction(
+    new CodeAspect(name, AspectState.EDITED, [
+      revision(`${name}Draft`, { kind: 'human' }),
+      revision(name, { kind: 'rename', from: `${name}Draft`, to: name }),
+    ]),
+    new CodeAspect('(text: str) -> str', AspectState.AUTOGEN, [
+      revision('(text: str) -> str', {
+        kind: 'llm',
+        model: 'mock',
+        triggerAspect: CodeAspectType.IDENTIFIER,
+        rationale: 'Takes and returns text',
+      }),
+    ]),
+    new CodeAspect(`Does ${name}`, AspectState.LOCKED),
+    new CodeAspect(),
+    `def ${name}(text):\n    return text\n`,
+    id,
+    position
+  );
+
+// Save to JSON text and read it back, like a project file on disk
+const roundTrip = (...args: Parameters<typeof saveProjectData>) =>
+  parseProjectData(JSON.parse(JSON.stringify(saveProjectData(...args))));
+
+describe('saveProjectData / parseProjectData round trip', () => {
+  const functions = [
+    makeFunction('formatText', 'func-a', { x: 120, y: 80 }),
+    makeFunction('printReport', 'func-b', { x: -340.5, y: 512 }),
+  ];
+  const snapshot: ProjectSnapshot = {
+    id: 'snap-1',
+    name: 'before rename',
+    created: '2025-01-02T08:30:00.000Z',
+    codeFunctions: [makeFunction('formatTextOld', 'func-a', { x: 10, y: 20 })],
+  };
+  const viewport = { x: -25, y: 40, zoom: 0.75 };
+
+  const loaded = roundTrip('Report tool', functions, undefined, undefined, viewport, [snapshot]);
+
+  it('keeps the project name and viewport', () => {
+    expect(loaded.projectName).toBe('Report tool');
+    expect(loaded.viewport).toEqual(viewport);
+    expect(loaded.migration).toBeUndefined();
+  });
+
+  it('keeps function ids and positions', () => {
+    expect(loaded.codeFunctions.map((func) => func.id)).toEqual(['func-a', 'func-b']);
+    expect(loaded.codeFunctions.map((func) => func.position)).toEqual([{ x: 120, y: 80 }, { x: -340.5, y: 512 }]);
+  });
+
+  it('keeps aspects with their states and revision history', () => {
+    functions.forEach((func, index) => {
+      const restored = loaded.codeFunctions[index];
+      for (const aspect of Object.values(CodeAspectType)) {
+        expect(restored[aspect].descriptor).toBe(func[aspect].descriptor);
+        expect(restored[aspect].state).toBe(func[aspect].state);
+        expect(restored[aspect].history).toEqual(func[aspect].history);
+      }
+      expect(restored.code).toBe(func.code);
+    });
+  });
+
+  it('keeps snapshots with their functions', () => {
+    expect(loaded.snapshots).toHaveLength(1);
+    const [restored] = loaded.snapshots;
+    expect({ id: restored.id, name: restored.name, created: restored.created }).toEqual({
+      id: 'snap-1',
+      name: 'before rename',
+      created: '2025-01-02T08:30:00.000Z',
+    });
+    expect(restored.codeFunctions.map((func) => [func.id, func.position, func.identifier.descriptor])).toEqual([
+      ['func-a', { x: 10, y: 20 }, 'formatTextOld'],
+    ]);
+    expect(restored.codeFunctions[0].identifier.history).toEqual(snapshot.codeFunctions[0].identifier.history);
+  });
+
+  it('saves the loaded project unchanged', () => {
+    const again = roundTrip(loaded.projectName, loaded.codeFunctions, undefined, undefined, loaded.viewport, loaded.snapshots);
+    expect(again.codeFunctions).toEqual(loaded.codeFunctions);
+    expect(again.snapshots).toEqual(loaded.snapshots);
+    expect(again.viewport).toEqual(loaded.viewport);
+  });
+});
+
+describe('parseProjectData migration report', () => {
+  it('only reports an upgrade that changed the data', () => {
+    const saved = JSON.parse(JSON.stringify(saveProjectData('Ids', [makeFunction('formatText', 'func-a', { x: 0, y: 0 })])));
+    const { version: _version, ...legacy } = saved;
+
+    expect(parseProjectData(legacy).migration).toBeUndefined();
+    const withoutId = { ...legacy, functions: legacy.functions.map(({ ui, ...func }: { ui: object }) => func) };
+    expect(parseProjectData(withoutId).migration?.changes).toEqual(['1.0 → 1.1: Assigned stable ids to 1 function(s)']);
+  });
+});
@@ -1,51 +1,89 @@
-import { CodeAspect, CodeFunction, AspectState } from '../store/codebase.types';
+import { CodeAspect, CodeFunction, AspectState, type CodebaseState, type CodegenUsageRecord, type PromptSettings, type ProjectSnapshot, type TargetLanguage } from '../store/codebase.types';
+import { DEFAULT_TARGET_LANGUAGE, isTargetLanguage } from '../features/codegen/codegenLanguages';
 import { 
   ProjectData, 
+  ProjectAspect,
   ProjectFunction, 
-  validateProjectData, 
-  hasUIState, 
+  ProjectSnapshotData,
+  assertValidProjectData, 
   functionHasUIState,
-  generateDefaultFunctionUI,
-  generateDefaultProjectUI,
   parseAspectState
 } from './projectSchema';
+import { CURRENT_PROJECT_VERSION, migrateProjectData, type ProjectMigrationReport } from './projectMigrations';
 import { Node, Edge } from 'reactflow';
 import { findOptimalNodePlacement } from '../utils/nodePlacement';
 import { NODE_WIDTH, calculateNodeHeight } from '../constants/nodeConstants';
 
-// Convert ProjectFunction to CodeFunction
-const projectFunctionToCodeFunction = (func: ProjectFunction): CodeFunction => {
+/*
+ * Round-trip contract between the store and the ProjectData format:
+ * - `CodeFunction.id` is saved as `ui.id` and restored as-is, so ids are stable across saves.
+ * - `CodeFunction.position` is saved as `ui.position` and restored as-is.
+ * - The viewport is saved as `ui.viewport` and restored via the store's `viewport`.
+ * - Named snapshots are saved as `snapshots`, each with its functions in the same format.
+ * - The target language of the functions' `code` is saved as `targetLanguage` (Python if missing).
+ * - Ripple mode is saved as `rippleCallers` (off if missing); callee changes awaiting review as `calleeChanges` per function.
+ * - Propose mode is saved as `proposeChanges` (off if missing); pending proposals are not saved.
+ * - Codegen usage is saved as `usageRecords` (none if missing) and the budget as `usageBudget` (no budget if missing).
+ * - Custom prompt templates and the glossary are saved as `promptSettings` (defaults if missing).
+ * Functions without `ui` (e.g. hand-written sample data) get a fresh id and a computed position.
+ * Older files are upgraded through the migration pipeline in `projectMigrations.ts` first.
+ */
+
+// Convert a saved aspect, including its revision history
+const projectAspectToCodeAspect = (aspect: ProjectAspect): CodeAspect => {
+  return new CodeAspect(aspect.descriptor, parseAspectState(aspect.state), aspect.history ? [...aspect.history] : []);
+};
+
+// Convert ProjectFunction to CodeFunction, keeping its stored id and position (if any)
+const projectFunctionToCodeFunction = (func: ProjectFunction, id?: string): CodeFunction => {
   return new CodeFunction(
-    new CodeAspect(func.identifier.descriptor, parseAspectState(func.identifier.state)),
-    new CodeAspect(func.signature.descriptor, parseAspectState(func.signature.state)),
-    new CodeAspect(func.specification.descriptor, parseAspectState(func.specification.state)),
-    new CodeAspect(func.implementation.descriptor, parseAspectState(func.implementation.state)),
-    func.code
+    projectAspectToCodeAspect(func.identifier),
+    projectAspectToCodeAspect(func.signature),
+    projectAspectToCodeAspect(func.specification),
+    projectAspectToCodeAspect(func.implementation),
+    func.code,
+    id,
+    func.ui?.position ? { ...func.ui.position } : undefined,
+    func.calleeChanges ? [...func.calleeChanges] : []
   );
 };
 
+// Describe a function as a React Flow node for the placement algorithm
+const toPlacementNode = (func: CodeFunction): Node => ({
+  id: func.id,
+  position: func.position,
+  width: NODE_WIDTH,
+  height: calculateNodeHeight(func), // Use actual calculated height
+  data: { functionId: func.id },
+  type: 'method',
+});
+
+// Convert CodeAspect to ProjectAspect, omitting an empty history
+const codeAspectToProjectAspect = (aspect: CodeAspect): ProjectAspect => {
+  const projectAspect: ProjectAspect = {
+    descriptor: aspect.descriptor,
+    state: aspect.state
+  };
+  if (aspect.history.length > 0) {
+    projectAspect.history = aspect.history;
+  }
+  return projectAspect;
+};
+
 // Convert CodeFunction to ProjectFunction (for saving)
 export const codeFunctionToProjectFunction = (func: CodeFunction, ui?: ProjectFunction['ui']): ProjectFunction => {
   const projectFunc: ProjectFunction = {
-    identifier: {
-      descriptor: func.identifier.descriptor,
-      state: func.identifier.state
-    },
-    signature: {
-      descriptor: func.signature.descriptor,
-      state: func.signature.state
-    },
-    specification: {
-      descriptor: func.specification.descriptor,
-      state: func.specification.state
-    },
-    implementation: {
-      descriptor: func.implementation.descriptor,
-      state: func.implementation.state
-    },
+    identifier: codeAspectToProjectAspect(func.identifier),
+    signature: codeAspectToProjectAspect(func.signature),
+    specification: codeAspectToProjectAspect(func.specification),
+    implementation: codeAspectToProjectAspect(func.implementation),
     code: func.code
   };
   
+  if (func.calleeChanges.length > 0) {
+    projectFunc.calleeChanges = func.calleeChanges;
+  }
+  
   if (ui) {
     projectFunc.ui = ui;
   }
@@ -53,132 +91,169 @@ export const codeFunctionToProjectFunction = (func: CodeFunction, ui?: ProjectFu
   return projectFunc;
 };
 
-// Enhanced load function that supports both sample data and persisted state
-export const loadProjectData = async (jsonPath: string): Promise<{
-  projectName: string;
-  codeFunctions: CodeFunction[];
-  nodes?: Node[];
-  edges?: Edge[];
-  viewport?: { x: number; y: number; zoom: number };
-}> => {
-  try {
-    const response = await fetch(jsonPath);
-    const data: ProjectData = await response.json();
-    
-    if (!validateProjectData(data)) {
-      throw new Error('Invalid project data format');
-    }
-    
-    // Convert functions to CodeFunction instances
-    const codeFunctions = data.functions.map(projectFunctionToCodeFunction);
-    
-    // If this is sample data (no UI state), return minimal data
-    if (!hasUIState(data)) {
-      return {
-        projectName: data.projectName,
-        codeFunctions
-      };
-    }
-    
-    // Generate positions using placement algorithm for sample data
-    const nodes: Node[] = [];
-    const existingNodes: Node[] = [];
+// Convert saved functions to CodeFunctions with unique ids and a position for every node
+const toCodeFunctions = (functions: ProjectFunction[]): CodeFunction[] => {
+  // Keep stored ids unless they clash
+  const seenIds = new Set<string>();
+  const codeFunctions = functions.map((func) => {
+    const storedId = func.ui?.id;
+    const codeFunction = projectFunctionToCodeFunction(func, storedId && !seenIds.has(storedId) ? storedId : undefined);
+    seenIds.add(codeFunction.id);
+    return codeFunction;
+  });
+  
+  // Functions with a stored position keep it; place the others around them
+  const hasStoredPosition = (index: number) => {
+    const func = functions[index];
+    return functionHasUIState(func) && func.ui.position !== undefined;
+  };
+  const existingNodes: Node[] = codeFunctions
+    .filter((_, index) => hasStoredPosition(index))
+    .map(toPlacementNode);
+  
+  codeFunctions.forEach((func, index) => {
+    if (hasStoredPosition(index)) return;
+    const startPosition = { x: 100, y: 100 }; // Starting point for first node
+    func.position = findOptimalNodePlacement(startPosition, existingNodes);
+    existingNodes.push(toPlacementNode(func)); // Add to existing nodes for next placement calculation
+  });
+  
+  return codeFunctions;
+};
+
+// Convert CodeFunctions to ProjectFunctions, always including the id and position
+const toProjectFunctions = (codeFunctions: CodeFunction[], nodes?: Node[]): ProjectFunction[] => {
+  return codeFunctions.map((func) => {
+    // Id and position always come from the function itself
+    const ui: NonNullable<ProjectFunction['ui']> = {
+      id: func.id,
+      position: { ...func.position }
+    };
     
-    for (let index = 0; index < data.functions.length; index++) {
-      const func = data.functions[index];
-      let ui: NonNullable<ProjectFunction['ui']>;
-      
-      if (functionHasUIState(func)) {
-        ui = func.ui;
-      } else {
-        // For sample data without UI state, generate position using placement algorithm
-        const startPosition = { x: 100, y: 100 }; // Starting point for first node
-        const optimalPosition = findOptimalNodePlacement(startPosition, existingNodes);
-        ui = {
-          id: `function-${index}`,
-          position: optimalPosition,
-          selected: false,
-          dragging: false,
-          width: NODE_WIDTH,
-          height: calculateNodeHeight(func) // Use actual calculated height
-        };
-      }
-      
-      // Ensure position is always defined
-      if (!ui.position) {
-        throw new Error(`Function ${index} missing position in UI state`);
-      }
-      
-      const node: Node = {
-        id: ui.id || `function-${index}`,
-        type: 'methodNode',
-        position: ui.position,
-        data: { functionIndex: index },
-        selected: ui.selected || false,
-        dragging: ui.dragging || false,
-        width: ui.width || 280,
-        height: ui.height || 200
-      };
-      
-      nodes.push(node);
-      existingNodes.push(node); // Add to existing nodes for next placement calculation
+    // If we have React Flow node data for this function, include its UI state
+    const node = nodes?.find(n => n.id === func.id);
+    if (node) {
+      ui.selected = node.selected || false;
+      ui.dragging = node.dragging || false;
+      ui.width = node.width || 280;
+      ui.height = node.height || 200;
     }
     
-    return {
-      projectName: data.projectName,
-      codeFunctions,
-      nodes,
-      edges: data.ui.edges || [],
-      viewport: data.ui.viewport
-    };
-    
-  } catch (error) {
-    console.error('Failed to load project data:', error);
-    // Return default data if loading fails
-    return {
-      projectName: 'DefaultProject',
-      codeFunctions: []
-    };
+    return codeFunctionToProjectFunction(func, ui);
+  });
+};
+
+// Result of loading a project, ready to be handed to the store
+export interface LoadedProjectData {
+  projectName: string;
+  codeFunctions: CodeFunction[]; // With stable ids and positions
+  snapshots: ProjectSnapshot[];
+  targetLanguage: TargetLanguage;
+  rippleCallers: boolean;
+  proposeChanges: boolean;
+  usageRecords: CodegenUsageRecord[];
+  usageBudget: number | null;
+  promptSettings: PromptSettings;
+  viewport?: { x: number; y: number; zoom: number };
+  migration?: ProjectMigrationReport; // Only set if upgrading from an older version changed the data
+}
+
+// Enhanced load function that supports both sample data and persisted state.
+// Throws (a ProjectValidationError for schema problems) so callers can keep the current project.
+export const loadProjectData = async (jsonPath: string): Promise<LoadedProjectData> => {
+  const response = await fetch(jsonPath);
+  if (!response.ok) {
+    throw new Error(`Could not fetch '${jsonPath}': ${response.status} ${response.statusText}`);
+  }
+  
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`'${jsonPath}' is not a valid JSON file`);
+  }
+  return parseProjectData(data);
+};
+
+// Read the raw JSON of a project file chosen or dropped by the user.
+// Migration and validation happen in parseProjectData.
+export const readProjectFile = async (file: File): Promise<unknown> => {
+  try {
+    return JSON.parse(await file.text());
+  } catch {
+    throw new Error(`'${file.name}' is not a valid JSON file`);
   }
 };
 
+// Convert already-fetched project JSON (e.g. from the server workspace) into store data
+export const parseProjectData = (raw: unknown): LoadedProjectData => {
+  // Upgrade older files to the current schema before validating them
+  const { data, report } = migrateProjectData(raw);
+  assertValidProjectData(data);
+  if (report.changes.length > 0) {
+    console.info(`Upgraded project '${data.projectName}' from version ${report.fromVersion} to ${report.toVersion}:`, report.changes);
+  }
+  
+  const snapshots: ProjectSnapshot[] = (data.snapshots ?? []).map((snapshot) => ({
+    id: snapshot.id,
+    name: snapshot.name,
+    created: snapshot.created,
+    codeFunctions: toCodeFunctions(snapshot.functions),
+  }));
+  
+  return {
+    projectName: data.projectName,
+    codeFunctions: toCodeFunctions(data.functions),
+    snapshots,
+    targetLanguage: isTargetLanguage(data.targetLanguage) ? data.targetLanguage : DEFAULT_TARGET_LANGUAGE,
+    rippleCallers: data.rippleCallers ?? false,
+    proposeChanges: data.proposeChanges ?? false,
+    usageRecords: data.usageRecords ? [...data.usageRecords] : [],
+    usageBudget: data.usageBudget ?? null,
+    promptSettings: data.promptSettings ? { ...data.promptSettings } : {},
+    viewport: data.ui?.viewport,
+    migration: report.changes.length > 0 ? report : undefined
+  };
+};
+
 // Save current state to ProjectData format
 export const saveProjectData = (
   projectName: string,
   codeFunctions: CodeFunction[],
   nodes?: Node[],
   edges?: Edge[],
-  viewport?: { x: number; y: number; zoom: number }
+  viewport?: { x: number; y: number; zoom: number },
+  snapshots?: ProjectSnapshot[],
+  targetLanguage?: TargetLanguage,
+  rippleCallers?: boolean,
+  proposeChanges?: boolean,
+  usageRecords?: CodegenUsageRecord[],
+  usageBudget?: number | null,
+  promptSettings?: PromptSettings
 ): ProjectData => {
-  const functions: ProjectFunction[] = codeFunctions.map((func, index) => {
-    let ui: ProjectFunction['ui'] | undefined;
-    
-    // If we have UI data, include it
-    if (nodes) {
-      const node = nodes.find(n => n.data?.functionIndex === index);
-      if (node) {
-        ui = {
-          id: node.id,
-          position: node.position,
-          selected: node.selected || false,
-          dragging: node.dragging || false,
-          width: node.width || 280,
-          height: node.height || 200
-        };
-      }
-    }
-    
-    return codeFunctionToProjectFunction(func, ui);
-  });
-  
   const projectData: ProjectData = {
     projectName,
-    functions,
-    version: '1.0',
+    functions: toProjectFunctions(codeFunctions, nodes),
+    ...(targetLanguage ? { targetLanguage } : {}),
+    ...(rippleCallers ? { rippleCallers } : {}),
+    ...(proposeChanges ? { proposeChanges } : {}),
+    ...(usageRecords && usageRecords.length > 0 ? { usageRecords } : {}),
+    ...(usageBudget != null ? { usageBudget } : {}),
+    ...(promptSettings && Object.keys(promptSettings).length > 0 ? { promptSettings } : {}),
+    version: CURRENT_PROJECT_VERSION,
     created: new Date().toISOString(),
     modified: new Date().toISOString()
   };
   
+  if (snapshots && snapshots.length > 0) {
+    projectData.snapshots = snapshots.map((snapshot): ProjectSnapshotData => ({
+      id: snapshot.id,
+      name: snapshot.name,
+      created: snapshot.created,
+      functions: toProjectFunctions(snapshot.codeFunctions),
+    }));
+  }
+  
   // Add UI state if available
   if (nodes || edges || viewport) {
     projectData.ui = {
@@ -198,3 +273,23 @@ export const saveProjectData = (
   
   return projectData;
 };
+
+// Save the persistable part of the store (functions, positions, name, viewport, snapshots, project settings, usage) to ProjectData format
+export const projectDataFromState = (
+  state: Pick<CodebaseState, 'projectName' | 'codeFunctions' | 'viewport' | 'snapshots' | 'targetLanguage' | 'rippleCallers' | 'proposeChanges' | 'usageRecords' | 'usageBudget' | 'promptSettings'>
+): ProjectData => {
+  return saveProjectData(
+    state.projectName,
+    state.codeFunctions,
+    undefined,
+    undefined,
+    state.viewport ?? undefined,
+    state.snapshots,
+    state.targetLanguage,
+    state.rippleCallers,
+    state.proposeChanges,
+    state.usageRecords,
+    state.usageBudget,
+    state.promptSettings
+  );
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { CURRENT_PROJECT_VERSION, migrateProjectData } from './projectMigrations';
+
+const aspect = { descriptor: '', state: 'unset' };
+const legacyFunction = (ui?: unknown) => ({
+  identifier: aspect,
+  signature: aspect,
+  specification: aspect,
+  implementation: aspect,
+  code: '',
+  ...(ui !== undefined ? { ui } : {}),
+});
+
+describe('migrateProjectData', () => {
+  it('upgrades a legacy file to the current version, assigning missing ids', () => {
+    const raw = {
+      projectName: 'Legacy',
+      functions: [legacyFunction(), legacyFunction({ id: 'kept', position: { x: 1, y: 2 } }), legacyFunction({ position: { x: 3, y: 4 } })],
+    };
+
+    const { data, report } = migrateProjectData(raw);
+
+    expect(report.fromVersion).toBe('1.0');
+    expect(report.toVersion).toBe(CURRENT_PROJECT_VERSION);
+    expect(report.changes).toEqual(['1.0 → 1.1: Assigned stable ids to 2 function(s)']);
+    const functions = (data as { functions: Array<{ ui: { id: string; position?: unknown } }> }).functions;
+    expect(functions[1].ui).toEqual({ id: 'kept', position: { x: 1, y: 2 } });
+    expect(typeof functions[0].ui.id).toBe('string');
+    expect(functions[2].ui.position).toEqual({ x: 3, y: 4 });
+    expect(raw.functions[0]).not.toHaveProperty('ui'); // The input is not mutated
+  });
+
+  it('leaves malformed functions for validation to report', () => {
+    const { data } = migrateProjectData({ projectName: 'Broken', functions: ['not a function', legacyFunction(5)] });
+    expect((data as { functions: unknown[] }).functions).toEqual(['not a function', legacyFunction(5)]);
+  });
+
+  it('refuses files newer than the app and non-object data', () => {
+    expect(() => migrateProjectData({ projectName: 'Future', functions: [], version: '99.0' })).toThrow(/newer than this app/);
+    expect(() => migrateProjectData([])).toThrow('Project data must be a JSON object');
+  });
+});
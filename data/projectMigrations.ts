@@ -0,0 +1,115 @@
+/**
+ * Versioned project schema with a step-by-step migration pipeline.
+ *
+ * A change to the `ProjectData` format that older files have to be converted
+ * for bumps `CURRENT_PROJECT_VERSION` and registers a migration from the
+ * previous version; new optional fields need neither. Loading a file runs
+ * all migrations from the file's version up to the current one, collecting a
+ * human-readable list of what changed. Files newer than the running app are
+ * refused rather than silently misread.
+ */
+
+/** Schema version written by this build of the app. */
+export const CURRENT_PROJECT_VERSION = '1.1';
+
+/** Version assumed for files written before the `version` field was read. */
+const LEGACY_PROJECT_VERSION = '1.0';
+
+/** Project JSON as read from a file, before it is validated. */
+export type RawProjectData = Record<string, unknown>;
+
+/**
+ * A single upgrade step. `migrate` must not mutate its input; it receives
+ * data in the `from` schema and returns data in the `to` schema.
+ */
+export interface ProjectMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: RawProjectData) => { data: RawProjectData; changes: string[] };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** What happened while upgrading a project file. */
+export interface ProjectMigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  changes: string[];
+}
+
+/**
+ * All registered migrations. Each `from` must equal the previous entry's `to`.
+ */
+export const PROJECT_MIGRATIONS: ProjectMigration[] = [
+  {
+    from: '1.0',
+    to: '1.1',
+    description: 'Give every function a stable id',
+    migrate: (data) => {
+      if (!Array.isArray(data.functions)) return { data, changes: [] };
+
+      let assignedIds = 0;
+      const functions = data.functions.map((func: unknown) => {
+        // Malformed entries are left to validation
+        if (!isRecord(func) || (func.ui !== undefined && !isRecord(func.ui))) return func;
+        if (typeof func.ui?.id === 'string') return func;
+        assignedIds++;
+        return { ...func, ui: { ...func.ui, id: crypto.randomUUID() } };
+      });
+
+      return {
+        data: { ...data, functions },
+        changes: assignedIds > 0 ? [`Assigned stable ids to ${assignedIds} function(s)`] : [],
+      };
+    },
+  },
+];
+
+/**
+ * Compares two "major.minor" version strings. Returns <0, 0 or >0.
+ */
+export const compareProjectVersions = (a: string, b: string): number => {
+  const [aMajor = 0, aMinor = 0] = a.split('.').map(Number);
+  const [bMajor = 0, bMinor = 0] = b.split('.').map(Number);
+  return aMajor !== bMajor ? aMajor - bMajor : aMinor - bMinor;
+};
+
+/**
+ * Upgrades raw project JSON to the current schema version.
+ *
+ * Throws if the file is newer than this app or no migration path exists.
+ * The result is not validated here; callers validate the upgraded data.
+ */
+export const migrateProjectData = (raw: unknown): { data: unknown; report: ProjectMigrationReport } => {
+  if (!isRecord(raw)) {
+    throw new Error('Project data must be a JSON object');
+  }
+
+  const fromVersion = typeof raw.version === 'string' ? raw.version : LEGACY_PROJECT_VERSION;
+
+  if (compareProjectVersions(fromVersion, CURRENT_PROJECT_VERSION) > 0) {
+    throw new Error(
+      `Project file version ${fromVersion} is newer than this app supports (${CURRENT_PROJECT_VERSION}). Please update Code Brainstormer.`
+    );
+  }
+
+  let data: RawProjectData = raw;
+  let version = fromVersion;
+  const changes: string[] = [];
+
+  while (version !== CURRENT_PROJECT_VERSION) {
+    const migration = PROJECT_MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration path from project version ${version} to ${CURRENT_PROJECT_VERSION}`);
+    }
+
+    const result = migration.migrate(data);
+    data = { ...result.data, version: migration.to };
+    changes.push(...result.changes.map((change) => `${migration.from} → ${migration.to}: ${change}`));
+    version = migration.to;
+  }
+
+  return { data, report: { fromVersion, toVersion: version, changes } };
+};
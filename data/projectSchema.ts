@@ -1,4 +1,5 @@
-import { AspectState } from '../store/codebase.types';
+import { AspectState, CodeAspectType, type AspectRevision, type CalleeChange, type CodegenUsageRecord, type PromptSettings } from '../store/codebase.types';
+import { TARGET_LANGUAGES } from '../features/codegen/codegenLanguages';
 
 /**
  * Unified JSON schema that supports both:
@@ -9,6 +10,7 @@ import { AspectState } from '../store/codebase.types';
 export interface ProjectAspect {
   descriptor: string;
   state: AspectState | string; // Allow string for JSON compatibility
+  history?: AspectRevision[]; // Earlier values with provenance (since schema 1.3)
 }
 
 export interface ProjectFunction {
@@ -18,10 +20,11 @@ export interface ProjectFunction {
   specification: ProjectAspect;
   implementation: ProjectAspect;
   code: string;
+  calleeChanges?: CalleeChange[]; // Callee changes the implementation hasn't been reviewed for (since schema 1.5)
   
   // UI-specific fields (optional - only in persisted state)
   ui?: {
-    id?: string;           // React Flow node ID
+    id?: string;           // Stable CodeFunction ID (also the React Flow node ID)
     position?: {           // Node position on canvas
       x: number;
       y: number;
@@ -33,10 +36,25 @@ export interface ProjectFunction {
   };
 }
 
+// A named copy of the project's functions, saved by the user (since schema 1.2)
+export interface ProjectSnapshotData {
+  id: string;
+  name: string;            // e.g. "before auth refactor"
+  created: string;         // ISO timestamp
+  functions: ProjectFunction[];
+}
+
 export interface ProjectData {
   // Core project data (always present)
   projectName: string;
   functions: ProjectFunction[];
+  snapshots?: ProjectSnapshotData[];
+  targetLanguage?: string;   // Language of the functions' `code` (since schema 1.4, default: python)
+  rippleCallers?: boolean;   // Ripple mode (since schema 1.5, default: off)
+  proposeChanges?: boolean;  // Propose mode: review LLM changes before they are applied (since schema 1.6, default: off)
+  usageRecords?: CodegenUsageRecord[]; // Token usage and cost of past codegen calls (since schema 1.8)
+  usageBudget?: number;      // Codegen budget in USD (since schema 1.8, default: none)
+  promptSettings?: PromptSettings; // Custom prompt templates and glossary (since schema 1.9, default: none)
   
   // Metadata
   version?: string;        // Schema version for future compatibility
@@ -121,32 +139,249 @@ export const parseAspectState = (state: string | AspectState): AspectState => {
 };
 
 /**
- * Schema validation helpers
+ * Thrown when project data does not match the schema. `errors` lists every
+ * problem as "<json path>: <message>", e.g. "functions[3].signature.state: unknown value 'draft'".
  */
-export const validateProjectData = (data: any): data is ProjectData => {
-  return (
-    typeof data === 'object' &&
-    typeof data.projectName === 'string' &&
-    Array.isArray(data.functions) &&
-    data.functions.every(validateProjectFunction)
-  );
+export class ProjectValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid project data (${errors.length} problem${errors.length === 1 ? '' : 's'}): ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '; …' : ''}`);
+    this.name = 'ProjectValidationError';
+  }
+}
+
+const ASPECT_KEYS = ['identifier', 'signature', 'specification', 'implementation'] as const;
+const KNOWN_ASPECT_STATES = Object.values(AspectState) as string[];
+const KNOWN_ASPECT_TYPES = Object.values(CodeAspectType) as string[];
+const KNOWN_REVISION_SOURCES = ['human', 'llm', 'rename', 'initial'];
+const KNOWN_TARGET_LANGUAGES = Object.keys(TARGET_LANGUAGES);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Describe a value's type for error messages ("null", "array", "number", ...)
+const describeType = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+interface JsonPrimitiveTypes {
+  string: string;
+  number: number;
+  boolean: boolean;
+}
+
+const expectType = <T extends keyof JsonPrimitiveTypes>(errors: string[], path: string, value: unknown, expected: T): value is JsonPrimitiveTypes[T] => {
+  if (typeof value !== expected) {
+    errors.push(`${path}: expected a ${expected}, got ${describeType(value)}`);
+    return false;
+  }
+  return true;
+};
+
+const isKnownValue = (known: string[], value: unknown): value is string =>
+  typeof value === 'string' && known.includes(value);
+
+const collectPositionErrors = (errors: string[], path: string, position: unknown, keys: string[]) => {
+  if (!isObject(position)) {
+    errors.push(`${path}: expected an object, got ${describeType(position)}`);
+    return;
+  }
+  keys.forEach((key) => expectType(errors, `${path}.${key}`, position[key], 'number'));
+};
+
+const collectRevisionErrors = (errors: string[], path: string, revision: unknown) => {
+  if (!isObject(revision)) {
+    errors.push(`${path}: expected an object, got ${describeType(revision)}`);
+    return;
+  }
+  expectType(errors, `${path}.descriptor`, revision.descriptor, 'string');
+  expectType(errors, `${path}.timestamp`, revision.timestamp, 'string');
+  
+  const source = revision.source;
+  if (!isObject(source)) {
+    errors.push(`${path}.source: expected an object, got ${describeType(source)}`);
+  } else if (!isKnownValue(KNOWN_REVISION_SOURCES, source.kind)) {
+    errors.push(`${path}.source.kind: unknown value '${source.kind}' (expected one of ${KNOWN_REVISION_SOURCES.join(', ')})`);
+  } else if (source.kind === 'llm') {
+    expectType(errors, `${path}.source.model`, source.model, 'string');
+    if (source.rationale !== undefined) expectType(errors, `${path}.source.rationale`, source.rationale, 'string');
+    if (!isKnownValue(KNOWN_ASPECT_TYPES, source.triggerAspect)) {
+      errors.push(`${path}.source.triggerAspect: unknown value '${source.triggerAspect}' (expected one of ${KNOWN_ASPECT_TYPES.join(', ')})`);
+    }
+  } else if (source.kind === 'rename') {
+    expectType(errors, `${path}.source.from`, source.from, 'string');
+    expectType(errors, `${path}.source.to`, source.to, 'string');
+  }
+};
+
+const collectCalleeChangeErrors = (errors: string[], path: string, change: unknown) => {
+  if (!isObject(change)) {
+    errors.push(`${path}: expected an object, got ${describeType(change)}`);
+    return;
+  }
+  ['callee', 'from', 'to'].forEach((key) => expectType(errors, `${path}.${key}`, change[key], 'string'));
+  if (!isKnownValue(KNOWN_ASPECT_TYPES, change.aspect)) {
+    errors.push(`${path}.aspect: unknown value '${change.aspect}' (expected one of ${KNOWN_ASPECT_TYPES.join(', ')})`);
+  }
+};
+
+const collectUsageRecordErrors = (errors: string[], path: string, record: unknown) => {
+  if (!isObject(record)) {
+    errors.push(`${path}: expected an object, got ${describeType(record)}`);
+    return;
+  }
+  ['id', 'timestamp', 'model', 'functionId', 'functionName'].forEach((key) => expectType(errors, `${path}.${key}`, record[key], 'string'));
+  ['inputTokens', 'outputTokens', 'latencyMs'].forEach((key) => expectType(errors, `${path}.${key}`, record[key], 'number'));
+  if (record.costUsd !== undefined) expectType(errors, `${path}.costUsd`, record.costUsd, 'number');
+  if (!isKnownValue(KNOWN_ASPECT_TYPES, record.triggerAspect)) {
+    errors.push(`${path}.triggerAspect: unknown value '${record.triggerAspect}' (expected one of ${KNOWN_ASPECT_TYPES.join(', ')})`);
+  }
+};
+
+/**
+ * Schema validation helpers. The `collect…Errors` functions report every
+ * problem with its JSON path; the `validate…` type guards wrap them.
+ */
+export const collectProjectAspectErrors = (aspect: unknown, path: string): string[] => {
+  const errors: string[] = [];
+  if (!isObject(aspect)) {
+    errors.push(`${path}: expected an object, got ${describeType(aspect)}`);
+    return errors;
+  }
+  
+  expectType(errors, `${path}.descriptor`, aspect.descriptor, 'string');
+  if (expectType(errors, `${path}.state`, aspect.state, 'string') &&
+      !KNOWN_ASPECT_STATES.includes(aspect.state.toLowerCase())) {
+    errors.push(`${path}.state: unknown value '${aspect.state}' (expected one of ${KNOWN_ASPECT_STATES.join(', ')})`);
+  }
+  if (aspect.history !== undefined) {
+    if (!Array.isArray(aspect.history)) {
+      errors.push(`${path}.history: expected an array, got ${describeType(aspect.history)}`);
+    } else {
+      aspect.history.forEach((revision, index) => collectRevisionErrors(errors, `${path}.history[${index}]`, revision));
+    }
+  }
+  return errors;
 };
 
-export const validateProjectFunction = (func: any): func is ProjectFunction => {
-  return (
-    typeof func === 'object' &&
-    validateProjectAspect(func.identifier) &&
-    validateProjectAspect(func.signature) &&
-    validateProjectAspect(func.specification) &&
-    validateProjectAspect(func.implementation) &&
-    typeof func.code === 'string'
-  );
+export const collectProjectFunctionErrors = (func: unknown, path: string): string[] => {
+  if (!isObject(func)) {
+    return [`${path}: expected an object, got ${describeType(func)}`];
+  }
+  
+  const errors = ASPECT_KEYS.flatMap((key) => collectProjectAspectErrors(func[key], `${path}.${key}`));
+  expectType(errors, `${path}.code`, func.code, 'string');
+  if (func.calleeChanges !== undefined) {
+    if (!Array.isArray(func.calleeChanges)) {
+      errors.push(`${path}.calleeChanges: expected an array, got ${describeType(func.calleeChanges)}`);
+    } else {
+      func.calleeChanges.forEach((change, index) => collectCalleeChangeErrors(errors, `${path}.calleeChanges[${index}]`, change));
+    }
+  }
+  
+  // UI state is optional, but must be well-formed when present
+  if (func.ui !== undefined) {
+    if (!isObject(func.ui)) {
+      errors.push(`${path}.ui: expected an object, got ${describeType(func.ui)}`);
+    } else {
+      if (func.ui.id !== undefined) expectType(errors, `${path}.ui.id`, func.ui.id, 'string');
+      if (func.ui.position !== undefined) collectPositionErrors(errors, `${path}.ui.position`, func.ui.position, ['x', 'y']);
+    }
+  }
+  return errors;
 };
 
-export const validateProjectAspect = (aspect: any): aspect is ProjectAspect => {
-  return (
-    typeof aspect === 'object' &&
-    typeof aspect.descriptor === 'string' &&
-    (typeof aspect.state === 'string' || Object.values(AspectState).includes(aspect.state))
-  );
+export const collectProjectSnapshotErrors = (snapshot: unknown, path: string): string[] => {
+  if (!isObject(snapshot)) {
+    return [`${path}: expected an object, got ${describeType(snapshot)}`];
+  }
+  
+  const errors: string[] = [];
+  ['id', 'name', 'created'].forEach((key) => expectType(errors, `${path}.${key}`, snapshot[key], 'string'));
+  if (!Array.isArray(snapshot.functions)) {
+    errors.push(`${path}.functions: expected an array, got ${describeType(snapshot.functions)}`);
+  } else {
+    snapshot.functions.forEach((func, index) => errors.push(...collectProjectFunctionErrors(func, `${path}.functions[${index}]`)));
+  }
+  return errors;
 };
+
+export const collectProjectDataErrors = (data: unknown): string[] => {
+  if (!isObject(data)) {
+    return [`(root): expected an object, got ${describeType(data)}`];
+  }
+  
+  const errors: string[] = [];
+  expectType(errors, 'projectName', data.projectName, 'string');
+  if (data.version !== undefined) expectType(errors, 'version', data.version, 'string');
+  if (data.targetLanguage !== undefined &&
+      expectType(errors, 'targetLanguage', data.targetLanguage, 'string') &&
+      !isKnownValue(KNOWN_TARGET_LANGUAGES, data.targetLanguage)) {
+    errors.push(`targetLanguage: unknown value '${data.targetLanguage}' (expected one of ${KNOWN_TARGET_LANGUAGES.join(', ')})`);
+  }
+  if (data.rippleCallers !== undefined) expectType(errors, 'rippleCallers', data.rippleCallers, 'boolean');
+  if (data.proposeChanges !== undefined) expectType(errors, 'proposeChanges', data.proposeChanges, 'boolean');
+  if (data.usageBudget !== undefined && expectType(errors, 'usageBudget', data.usageBudget, 'number') && data.usageBudget < 0) {
+    errors.push(`usageBudget: expected a non-negative number, got ${data.usageBudget}`);
+  }
+  if (data.promptSettings !== undefined) {
+    if (!isObject(data.promptSettings)) {
+      errors.push(`promptSettings: expected an object, got ${describeType(data.promptSettings)}`);
+    } else {
+      const settings = data.promptSettings;
+      (['systemTemplate', 'userTemplate', 'glossary'] as const).forEach((key) => {
+        if (settings[key] !== undefined) expectType(errors, `promptSettings.${key}`, settings[key], 'string');
+      });
+    }
+  }
+  if (data.usageRecords !== undefined) {
+    if (!Array.isArray(data.usageRecords)) {
+      errors.push(`usageRecords: expected an array, got ${describeType(data.usageRecords)}`);
+    } else {
+      data.usageRecords.forEach((record, index) => collectUsageRecordErrors(errors, `usageRecords[${index}]`, record));
+    }
+  }
+  
+  if (!Array.isArray(data.functions)) {
+    errors.push(`functions: expected an array, got ${describeType(data.functions)}`);
+  } else {
+    data.functions.forEach((func, index) => errors.push(...collectProjectFunctionErrors(func, `functions[${index}]`)));
+  }
+  
+  if (data.snapshots !== undefined) {
+    if (!Array.isArray(data.snapshots)) {
+      errors.push(`snapshots: expected an array, got ${describeType(data.snapshots)}`);
+    } else {
+      data.snapshots.forEach((snapshot, index) => errors.push(...collectProjectSnapshotErrors(snapshot, `snapshots[${index}]`)));
+    }
+  }
+  
+  if (data.ui !== undefined) {
+    if (!isObject(data.ui)) {
+      errors.push(`ui: expected an object, got ${describeType(data.ui)}`);
+    } else if (data.ui.viewport !== undefined) {
+      collectPositionErrors(errors, 'ui.viewport', data.ui.viewport, ['x', 'y', 'zoom']);
+    }
+  }
+  return errors;
+};
+
+export const validateProjectData = (data: unknown): data is ProjectData => {
+  return collectProjectDataErrors(data).length === 0;
+};
+
+export const validateProjectFunction = (func: unknown): func is ProjectFunction => {
+  return collectProjectFunctionErrors(func, 'function').length === 0;
+};
+
+export const validateProjectAspect = (aspect: unknown): aspect is ProjectAspect => {
+  return collectProjectAspectErrors(aspect, 'aspect').length === 0;
+};
+
+/**
+ * Throws a ProjectValidationError listing every problem if the data is not a valid project.
+ */
+export function assertValidProjectData(data: unknown): asserts data is ProjectData {
+  const errors = collectProjectDataErrors(data);
+  if (errors.length > 0) {
+    throw new ProjectValidationError(errors);
+  }
+}
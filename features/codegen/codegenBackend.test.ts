@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { AspectState, CodeAspectType } from '@/store/codebase.types';
+import { callLLMCodeSynthesis, type CodegenTrigger } from './codegenBackend';
+import type { PackagedCodebase, PackagedCodeFunction } from './codegenPackaging';
+
+const func: PackagedCodeFunction = {
+  identifier: { descriptor: 'formatText', state: AspectState.EDITED },
+  signature: { descriptor: '', state: AspectState.UNSET },
+  specification: { descriptor: '', state: AspectState.UNSET },
+  implementation: { descriptor: '', state: AspectState.UNSET },
+  code: '',
+};
+const snapshot: PackagedCodebase = { project: 'Test', language: 'python', functions: [func] };
+const trigger: CodegenTrigger = {
+  modifiedFunction: func,
+  modifiedAspect: CodeAspectType.IDENTIFIER,
+  aspectsToGenerate: [CodeAspectType.SIGNATURE, CodeAspectType.SPECIFICATION, CodeAspectType.IMPLEMENTATION],
+  reroll: true, // Bypass the response cache
+};
+
+describe('callLLMCodeSynthesis', () => {
+  const environment = { ...process.env };
+  beforeEach(() => {
+    process.env.CODEGEN_PROVIDER = 'mock';
+  });
+  afterEach(() => {
+    process.env = { ...environment };
+  });
+
+  it('generates the requested aspects', async () => {
+    const result = await callLLMCodeSynthesis(snapshot, trigger);
+    expect(result.commands.map((command) => command.type === 'update_aspect' && command.aspect)).toEqual(trigger.aspectsToGenerate);
+  });
+
+  it('neither generates nor reports anything once the request is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const events: unknown[] = [];
+
+    await expect(callLLMCodeSynthesis(snapshot, trigger, (event) => events.push(event), undefined, controller.signal))
+      .rejects.toMatchObject({ kind: 'aborted', retryable: false });
+    expect(events).toEqual([]);
+  });
+});
@@ -1,28 +1,14 @@
 import { PackagedCodebase, PackagedCodeFunction } from './codegenPackaging';
 import { CodeGenCommand } from './codegenCommands';
-import { CodeAspectType } from '@/store/codebase.types';
-import { cloudLlmGenerateCode } from './codegenCloudLlm';
-
-/* // Defines the progression of aspects for code generation.
-const ASPECT_PROGRESSION = [
-  CodeAspectType.IDENTIFIER,
-  CodeAspectType.SIGNATURE,
-  CodeAspectType.SPECIFICATION,
-  CodeAspectType.IMPLEMENTATION,
-];
-
-// Hard-coded placeholder text for generated aspects.
-const PLACEHOLDER_CODE = 'def newMethod(expression):\n  # TODO: implement\n  return 0';
-
-const PLACEHOLDERS: Record<CodeAspectType, string> = {
-  [CodeAspectType.IDENTIFIER]: 'newMethod',
-  [CodeAspectType.SIGNATURE]:
-    'evaluateMathematicalExpression(expression: string): int',
-  [CodeAspectType.SPECIFICATION]:
-    'Analysis the mathematical expression and return the result',
-  [CodeAspectType.IMPLEMENTATION]:
-    'Search the expression for plus and minus signs, and call add(x, y) and subtract(x, y) as necessary until the result is found',
-}; */
+import { CodeAspectType, type CalleeChange, type CodegenUsage, type PromptSettings } from '@/store/codebase.types';
+import { getCodegenProvider } from './codegenProviders';
+import { buildCodegenContext } from './codegenContext';
+import { priceCodegenUsage } from './codegenUsage';
+import { cacheResponse, codegenCacheKey, getCachedResponse } from './codegenCache';
+import { buildSystemPrompt } from './codegenPrompt';
+import { CodegenError, classifyCodegenError } from './codegenErrors';
+import type { CodegenProvider, CodegenProviderOutput } from './codegenProviders';
+import type { CodegenProgressEvent } from './codegenStream';
 
 /**
  * Information about what user action triggered the code-generation call.
@@ -34,74 +20,137 @@ export type CodegenTrigger = {
   modifiedAspect: CodeAspectType;
   /** The sequence of aspects to generate, from the edited one down to the first locked aspect. */
   aspectsToGenerate: CodeAspectType[];
+  /** Also (re)write the function's source code in the project's target language. */
+  generateCode?: boolean;
+  /** Ripple regeneration: changes to called functions that the implementation should be brought in line with. */
+  calleeChanges?: CalleeChange[];
+  /** The user rerolled `modifiedAspect` (↻): it is regenerated too, and the response cache is bypassed. */
+  reroll?: boolean;
+  /** New project from a brief: the user's description of the system. `modifiedFunction` is its (still empty) entry point. */
+  brief?: string;
+  /** The project's prompt templates and glossary; missing (or missing templates) means the defaults. */
+  prompts?: PromptSettings;
 };
 
 /**
- * Simulates a backend call to an LLM-powered code-generation endpoint.
- *
- * This function implements the core logic for progressive code generation.
- * Given a trigger, it determines the next logical aspect to generate and
- * returns a command to update it, unless that aspect is locked.
+ * Commands from one code-generation call, with the model that produced them.
+ * `warnings` describes dropped or missing output and `rationale` is the
+ * model's explanation (Markdown, may be empty); both are shown to the user.
+ * `usage` is missing if no LLM call was made (nothing to generate, or a cached response).
  */
-export async function callLLMCodeSynthesis(
-  snapshot: PackagedCodebase,
-  trigger: CodegenTrigger
-): Promise<CodeGenCommand[]> {
-  console.log('[DEBUG] Entered callLLMCodeSynthesis.');
+export type CodegenResult = {
+  commands: CodeGenCommand[];
+  warnings: string[];
+  rationale: string;
+  model: string;
+  usage?: CodegenUsage;
+};
 
-  // Call remote LLM (hard-coded test). If we get valid commands, return early
-  const cloudCmds = await cloudLlmGenerateCode(snapshot, trigger);
-  if (cloudCmds.length) {
-    console.log(`[DEBUG] Returning ${cloudCmds.length} commands from cloud test`);
-    return cloudCmds;
-  }
+// Retries of transient failures (CODEGEN_MAX_RETRIES, default 2), after 1 s, 2 s, 4 s, … (or as long as the API asks)
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
 
-  console.log('[DEBUG] No code-gen commands were generated from the cloud test or the sim backend.');
-  return [];
+const getMaxRetries = () => {
+  const parsed = Number.parseInt(process.env.CODEGEN_MAX_RETRIES ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_MAX_RETRIES;
+};
 
+// Waits before a retry; rejects as soon as `signal` aborts
+const waitForRetry = (delay: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, delay);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new CodegenError('aborted', 'The request was cancelled'));
+    }, { once: true });
+  });
 
-/*   // 1. Find the next aspect in the progression.
-  const currentIndex = ASPECT_PROGRESSION.indexOf(triggeredAspect);
-  if (currentIndex < 0 || currentIndex + 1 >= ASPECT_PROGRESSION.length) {
-    return []; // No next aspect to generate.
+/**
+ * Runs the provider, retrying transient failures (rate limits, server and
+ * network errors) with exponential backoff. Once a command has been reported
+ * the client has applied it, so a failure after that is not retried, and
+ * neither is anything after `signal` has aborted.
+ * Throws a `CodegenError`.
+ */
+async function generateWithRetries(
+  provider: CodegenProvider,
+  snapshot: PackagedCodebase,
+  trigger: CodegenTrigger,
+  onProgress?: (event: CodegenProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<CodegenProviderOutput> {
+  const maxRetries = getMaxRetries();
+  for (let attempt = 0; ; attempt++) {
+    let reportedCommand = false;
+    try {
+      if (signal?.aborted) throw new CodegenError('aborted', 'The request was cancelled');
+      return await provider.generate(snapshot, trigger, onProgress && ((event) => {
+        if (event.type === 'command') reportedCommand = true;
+        onProgress(event);
+      }), signal);
+    } catch (error) {
+      const codegenError = signal?.aborted ? new CodegenError('aborted', 'The request was cancelled') : classifyCodegenError(error);
+      if (!codegenError.retryable || reportedCommand || attempt >= maxRetries) throw codegenError;
+      const delay = Math.min(codegenError.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+      console.warn(`[WARN] Codegen attempt ${attempt + 1} failed (${codegenError.kind}: ${codegenError.message}); retrying in ${delay} ms`);
+      await waitForRetry(delay, signal);
+    }
   }
-  const nextAspect = ASPECT_PROGRESSION[currentIndex + 1];
+}
 
-  // 2. Find the full, updated method data from the snapshot.
-  const methodInSnapshot = snapshot.methods.find(
-    (m) => m.identifier.descriptor === triggeredMethod.identifier.descriptor
-  );
-  if (!methodInSnapshot) {
-    return []; // Should not happen.
+/**
+ * Entry point of the code-generation backend.
+ *
+ * Delegates to the LLM provider selected by configuration (Anthropic, an
+ * OpenAI-compatible endpoint, or the offline mock; see `codegenProviders.ts`).
+ * `onStart` receives the model before generation begins and `onProgress` the
+ * streamed progress (used by the streaming route handler). Identical requests
+ * are answered from the response cache (`codegenCache.ts`) unless rerolled.
+ * Transient failures are retried; what remains is thrown as a `CodegenError`.
+ * `signal` (the client's request) stops the LLM call and any retries.
+ */
+export async function callLLMCodeSynthesis(
+  snapshot: PackagedCodebase,
+  trigger: CodegenTrigger,
+  onProgress?: (event: CodegenProgressEvent) => void,
+  onStart?: (model: string) => void,
+  signal?: AbortSignal
+): Promise<CodegenResult> {
+  let provider: CodegenProvider;
+  try {
+    provider = getCodegenProvider();
+  } catch (error) {
+    throw classifyCodegenError(error);
   }
+  console.log(`[DEBUG] Entered callLLMCodeSynthesis (provider: ${provider.name}, model: ${provider.model}).`);
+  onStart?.(provider.model);
 
-  // 3. Check if the next aspect is locked.
-  const targetAspectData = methodInSnapshot[nextAspect];
-  if (targetAspectData.state === AspectState.LOCKED) {
-    return []; // Target is locked, do nothing.
-  }
+  const context = buildCodegenContext(snapshot, trigger);
+  console.log('[DEBUG] Codegen context:', context.report);
+  const overBudgetWarning = `The project is too large for the configured context budget (about ${context.report.estimatedTokens} tokens were sent); results may be less accurate.`;
 
-  // 4. If not locked, generate commands to update it with a placeholder.
-  const commands: CodeGenCommand[] = [
-    {
-      type: CommandType.UPDATE_ASPECT,
-      className: snapshot.codeClass.descriptor,
-      methodName: methodInSnapshot.identifier.descriptor,
-      aspect: nextAspect,
-      value: PLACEHOLDERS[nextAspect],
-    },
-  ];
+  const cacheKey = codegenCacheKey(snapshot, trigger, provider.model, buildSystemPrompt(snapshot, trigger));
+  const cached = trigger.reroll ? undefined : getCachedResponse(cacheKey);
+  if (cached) {
+    // Replay the response, so streaming clients apply it like a fresh one
+    console.log(`[DEBUG] Returning ${cached.commands.length} cached commands`);
+    if (cached.rationale) onProgress?.({ type: 'rationale', text: cached.rationale });
+    cached.commands.forEach((command) => onProgress?.({ type: 'command', command }));
+    const warnings = context.report.overBudget ? [overBudgetWarning] : [];
+    return { commands: [...cached.commands], warnings, rationale: cached.rationale, model: provider.model };
+  }
 
-  // 5. If we've just generated the implementation descriptor, also generate the code.
-  if (nextAspect === CodeAspectType.IMPLEMENTATION) {
-    commands.push({
-      type: CommandType.UPDATE_METHOD_CODE,
-      className: snapshot.codeClass.descriptor,
-      methodName: methodInSnapshot.identifier.descriptor,
-      value: PLACEHOLDER_CODE,
-    });
+  const started = Date.now();
+  const output = await generateWithRetries(provider, context.snapshot, trigger, onProgress, signal);
+  const { commands, warnings, rationale, usage } = output;
+  const pricedUsage = priceCodegenUsage(provider.model, { ...usage, latencyMs: Date.now() - started });
+  // Responses with warnings (invalid tool calls, truncation, no changes) are worth another try
+  if (warnings.length === 0) cacheResponse(cacheKey, { ...output, commands: [...commands], warnings: [] });
+  if (context.report.overBudget) {
+    warnings.unshift(overBudgetWarning);
   }
-  console.log(`[DEBUG] Exiting callLLMCodeSynthesis, returning ${commands.length} commands.`);
-  return commands;
- */
+  console.log(`[DEBUG] Returning ${commands.length} commands (${warnings.length} warnings) from ${provider.name}`);
+  console.log('[DEBUG] Codegen usage:', pricedUsage);
+  return { commands, warnings, rationale, model: provider.model, usage: pricedUsage };
 }
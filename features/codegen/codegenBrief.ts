@@ -0,0 +1,48 @@
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import { AspectState, CodeAspectType } from '@/store/codebase.types';
+import { layoutCallTree } from '@/utils/callTreeLayout';
+import type { CodegenResult } from './codegenBackend';
+import { calculateAspectsToGenerate } from './codegenFrontend';
+import { enqueueCodegen } from './codegenQueue';
+
+// ---------------------------------------------------------------------------
+// New project from a brief: the user describes the system in a paragraph, and
+// the model drafts it as functions. The draft grows from an entry point: the
+// model fills in its aspects and creates the functions it calls (regular
+// `create_method` commands, see `CodegenTrigger.brief`). Once it is done, the
+// functions are arranged as a call tree.
+// ---------------------------------------------------------------------------
+
+/** Identifier of the entry point the draft starts from. */
+export const ENTRY_POINT_NAME = 'main';
+
+/** Moves every function to its place in the call tree (see `layoutCallTree`), as one undo step. */
+export function arrangeAsCallTree() {
+  const { codeFunctions, batchHistory, setNodePosition } = useCodebaseStore.getState();
+  const positions = layoutCallTree(codeFunctions);
+  batchHistory(() => positions.forEach((position, id) => setNodePosition(id, position)));
+}
+
+/**
+ * Drafts the current (usually empty) project from `brief` through the codegen
+ * queue, then arranges the functions as a call tree. Resolves with the
+ * response; rejects like `enqueueCodegen`.
+ */
+export async function draftProjectFromBrief(brief: string): Promise<CodegenResult> {
+  const store = useCodebaseStore.getState();
+  // EDITED, like a name the user typed: the brief job below fills in the rest,
+  // so the new node must not start a codegen job of its own
+  const entryId = store.addCodeFunction({ x: 100, y: 100 }, {
+    identifier: { descriptor: ENTRY_POINT_NAME, state: AspectState.EDITED },
+  });
+  const entry = useCodebaseStore.getState().codeFunctions.find((f) => f.id === entryId)!;
+
+  const result = await enqueueCodegen(
+    entryId,
+    CodeAspectType.IDENTIFIER,
+    calculateAspectsToGenerate(CodeAspectType.IDENTIFIER, entry),
+    { brief }
+  );
+  arrangeAsCallTree();
+  return result;
+}
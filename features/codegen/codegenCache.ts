@@ -0,0 +1,47 @@
+import { createHash } from 'crypto';
+
+import type { CodegenTrigger } from './codegenBackend';
+import type { PackagedCodebase } from './codegenPackaging';
+import type { CodegenProviderOutput } from './codegenProviders';
+
+// ---------------------------------------------------------------------------
+// In-memory cache of codegen responses in front of the LLM providers, so an
+// identical request (same snapshot, trigger, model and system prompt, e.g.
+// after undo/redo or in a repeated demo) doesn't cost another API call.
+// Rerolls bypass it. Server only; the cache is lost on restart.
+//
+// Configuration (environment variables):
+//   CODEGEN_CACHE_SIZE  Number of cached responses, least recently used are evicted (default: 100, 0 disables the cache)
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_CACHE_SIZE = 100;
+
+// Cached responses by key, least recently used first (Map keeps insertion order)
+const cache = new Map<string, CodegenProviderOutput>();
+
+const getCacheSize = () => {
+  const parsed = Number.parseInt(process.env.CODEGEN_CACHE_SIZE ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_CACHE_SIZE;
+};
+
+/** Hash of everything that determines the response. `reroll` only decides whether the cache is read. */
+export function codegenCacheKey(snapshot: PackagedCodebase, trigger: CodegenTrigger, model: string, systemPrompt: string): string {
+  const { reroll: _reroll, ...request } = trigger;
+  return createHash('sha256').update(JSON.stringify({ snapshot, trigger: request, model, systemPrompt })).digest('hex');
+}
+
+export function getCachedResponse(key: string): CodegenProviderOutput | undefined {
+  const output = cache.get(key);
+  if (!output) return undefined;
+  cache.delete(key); // Mark as recently used
+  cache.set(key, output);
+  return output;
+}
+
+export function cacheResponse(key: string, output: CodegenProviderOutput) {
+  const size = getCacheSize();
+  if (size === 0) return;
+  cache.delete(key);
+  cache.set(key, output);
+  while (cache.size > size) cache.delete(cache.keys().next().value!);
+}
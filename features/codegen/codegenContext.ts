@@ -0,0 +1,166 @@
+import type { CodegenTrigger } from './codegenBackend';
+import type { PackagedCodebase, PackagedCodeFunction, PackagedFunctionSummary } from './codegenPackaging';
+
+// ---------------------------------------------------------------------------
+// Call-graph-aware pruning of the codebase snapshot before it goes into a
+// prompt. The triggered function and its callers and callees (up to a depth)
+// are sent in full, every other function only as an identifier+signature index.
+// Server only.
+//
+// Configuration (environment variables):
+//   CODEGEN_CONTEXT_DEPTH   Call-graph distance of the functions sent in full (default: 2)
+//   CODEGEN_CONTEXT_TOKENS  Token budget of the snapshot in the prompt (default: 8000)
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_CONTEXT_DEPTH = 2;
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 8000;
+
+export interface CodegenContextOptions {
+  depth: number;
+  tokenBudget: number;
+}
+
+/** What the context builder kept, for logging. */
+export interface CodegenContextReport {
+  depth: number; // Depth actually used (lower than configured if the budget required it)
+  detailedFunctions: number;
+  indexedFunctions: number;
+  omittedFunctions: number;
+  estimatedTokens: number;
+  overBudget: boolean; // Even the smallest context exceeds the budget
+}
+
+const readPositiveInteger = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export function getCodegenContextOptions(): CodegenContextOptions {
+  return {
+    depth: readPositiveInteger(process.env.CODEGEN_CONTEXT_DEPTH, DEFAULT_CONTEXT_DEPTH),
+    tokenBudget: readPositiveInteger(process.env.CODEGEN_CONTEXT_TOKENS, DEFAULT_CONTEXT_TOKEN_BUDGET),
+  };
+}
+
+// Rough estimate (about four characters per token for English text and JSON)
+export const estimateTokens = (value: unknown): number => Math.ceil(JSON.stringify(value).length / 4);
+
+const functionName = (func: PackagedCodeFunction) => func.identifier.descriptor.split('(')[0].trim();
+
+// Names of the functions called in an implementation, e.g. "Call formatText(x)." -> ['formatText']
+const calledNames = (func: PackagedCodeFunction): string[] =>
+  func.implementation.descriptor.match(/[A-Za-z_]\w*(?=\()/g) ?? [];
+
+/**
+ * Distance of every function from the triggered one in the call graph, following
+ * calls in both directions separately (callers of callers, callees of callees).
+ * Functions further away than `maxDepth` are not included.
+ */
+const callGraphDistances = (functions: PackagedCodeFunction[], start: number, maxDepth: number): Map<number, number> => {
+  const indicesByName = new Map<string, number[]>();
+  functions.forEach((func, index) => {
+    const name = functionName(func);
+    indicesByName.set(name, [...(indicesByName.get(name) ?? []), index]);
+  });
+  const callees = functions.map((func) => calledNames(func).flatMap((name) => indicesByName.get(name) ?? []));
+  const callers = functions.map(() => [] as number[]);
+  callees.forEach((targets, caller) => targets.forEach((target) => callers[target].push(caller)));
+
+  // Breadth-first search in one direction
+  const search = (edges: number[][]) => {
+    const found = new Map<number, number>([[start, 0]]);
+    let frontier = [start];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: number[] = [];
+      frontier.forEach((index) =>
+        edges[index].forEach((neighbor) => {
+          if (found.has(neighbor)) return;
+          found.set(neighbor, depth);
+          next.push(neighbor);
+        })
+      );
+      frontier = next;
+    }
+    return found;
+  };
+
+  const distances = search(callees);
+  search(callers).forEach((depth, index) => distances.set(index, Math.min(depth, distances.get(index) ?? depth)));
+  return distances;
+};
+
+/**
+ * Builds the snapshot sent to the LLM for `trigger`: the functions within
+ * `options.depth` calls of the triggered function in full, all others in
+ * `otherFunctions`. If the result exceeds the token budget, it falls back step
+ * by step: smaller depth, no source code of other functions, identifiers only
+ * in the index, a truncated index. The triggered function is always sent.
+ */
+export function buildCodegenContext(
+  snapshot: PackagedCodebase,
+  trigger: CodegenTrigger,
+  options: CodegenContextOptions = getCodegenContextOptions()
+): { snapshot: PackagedCodebase; report: CodegenContextReport } {
+  const triggeredName = trigger.modifiedFunction.identifier.descriptor;
+  let start = snapshot.functions.findIndex((func) => func.identifier.descriptor === triggeredName);
+  const functions = start === -1 ? [...snapshot.functions, trigger.modifiedFunction] : snapshot.functions;
+  if (start === -1) start = functions.length - 1;
+
+  const allDistances = callGraphDistances(functions, start, options.depth);
+  const build = (depth: number, withCode: boolean, signatures: boolean, indexLimit = Infinity) => {
+    const detailed: PackagedCodeFunction[] = [];
+    const others: PackagedFunctionSummary[] = [];
+    functions.forEach((func, index) => {
+      const distance = allDistances.get(index);
+      if (distance !== undefined && distance <= depth) {
+        detailed.push(withCode || index === start ? func : { ...func, code: '' });
+      } else if (others.length < indexLimit) {
+        others.push(signatures ? { identifier: func.identifier.descriptor, signature: func.signature.descriptor } : { identifier: func.identifier.descriptor });
+      }
+    });
+    const omitted = functions.length - detailed.length - others.length;
+    const pruned: PackagedCodebase = {
+      ...snapshot,
+      functions: detailed,
+      ...(others.length > 0 ? { otherFunctions: others } : {}),
+      ...(omitted > 0 ? { omittedFunctionCount: omitted } : {}),
+    };
+    return { pruned, depth, omitted, indexed: others.length };
+  };
+
+  // Fallback steps, from the full configured context down to the triggered function with an identifier index
+  const attempts = [
+    ...Array.from({ length: options.depth + 1 }, (_, i) => () => build(options.depth - i, true, true)),
+    () => build(0, false, true),
+    () => build(0, false, false),
+  ];
+  let result = attempts[0]();
+  for (const attempt of attempts) {
+    result = attempt();
+    if (estimateTokens(result.pruned) <= options.tokenBudget) break;
+  }
+
+  // Last resort: keep as much of the index as the budget allows
+  if (estimateTokens(result.pruned) > options.tokenBudget) {
+    const minimal = build(0, false, false, 0);
+    let remaining = options.tokenBudget - estimateTokens(minimal.pruned);
+    const fitting = (result.pruned.otherFunctions ?? []).filter((entry) => {
+      remaining -= estimateTokens(entry) + 1;
+      return remaining >= 0;
+    }).length;
+    result = build(0, false, false, fitting);
+  }
+
+  const estimatedTokens = estimateTokens(result.pruned);
+  return {
+    snapshot: result.pruned,
+    report: {
+      depth: result.depth,
+      detailedFunctions: result.pruned.functions.length,
+      indexedFunctions: result.indexed,
+      omittedFunctions: result.omitted,
+      estimatedTokens,
+      overBudget: estimatedTokens > options.tokenBudget,
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// ---------------------------------------------------------------------------
+// Typed codegen failures. The backend classifies whatever a provider throws
+// into a `CodegenError`, retries the transient ones, and sends the rest to
+// the client in the stream's `error` event, where the node shows it.
+// ---------------------------------------------------------------------------
+
+export type CodegenErrorKind =
+  | 'configuration' // Missing API key, unknown provider
+  | 'authentication' // Key rejected (401/403)
+  | 'rate_limit' // 429
+  | 'server' // 5xx, overloaded
+  | 'network' // Connection failed, timed out or dropped
+  | 'request' // The API refused the request (other 4xx)
+  | 'invalid_response' // Malformed stream data
+  | 'aborted' // The client cancelled the request
+  | 'unknown';
+
+// Failures that may go away if the same request is sent again
+const TRANSIENT_KINDS: CodegenErrorKind[] = ['rate_limit', 'server', 'network', 'invalid_response'];
+
+export class CodegenError extends Error {
+  readonly retryable: boolean;
+
+  constructor(
+    readonly kind: CodegenErrorKind,
+    message: string,
+    readonly retryAfterMs?: number // Wait requested by the API (rate limits)
+  ) {
+    super(message);
+    this.name = 'CodegenError';
+    this.retryable = TRANSIENT_KINDS.includes(kind);
+  }
+}
+
+const kindFromStatus = (status: number): CodegenErrorKind => {
+  if (status === 401 || status === 403) return 'authentication';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  return 'request';
+};
+
+// "Retry-After: 12" -> 12000
+const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  const seconds = Number.parseFloat(value ?? '');
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+};
+
+/** Error for an HTTP error response of an LLM API. */
+export const codegenErrorFromStatus = (status: number, message: string, retryAfter?: string | null): CodegenError =>
+  new CodegenError(kindFromStatus(status), message, parseRetryAfter(retryAfter));
+
+/**
+ * Classifies anything thrown while generating: SDK errors with an HTTP
+ * `status` (and `headers`), connection errors, `fetch` failures and
+ * malformed JSON. Other errors become `unknown`.
+ */
+export function classifyCodegenError(error: unknown): CodegenError {
+  if (error instanceof CodegenError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const details = error as { status?: unknown; headers?: { get?: (name: string) => string | null }; name?: string };
+
+  if (typeof details?.status === 'number') {
+    return codegenErrorFromStatus(details.status, message, details.headers?.get?.('retry-after'));
+  }
+  // fetch() rejects with an AbortError, Anthropic's SDK with APIUserAbortError
+  if (/Abort/.test(details?.name ?? '')) return new CodegenError('aborted', message);
+  if (error instanceof SyntaxError) return new CodegenError('invalid_response', `The LLM sent malformed data: ${message}`);
+  // Anthropic's APIConnectionError and APIConnectionTimeoutError have no status; fetch() rejects with a TypeError
+  if (/Connection|Timeout/.test(details?.name ?? '') || (error instanceof TypeError && /fetch/i.test(message))) {
+    return new CodegenError('network', message);
+  }
+  return new CodegenError('unknown', message);
+}
+
+/** One line for the node, e.g. "Rate limited by the LLM API: …". */
+export function describeCodegenError(error: CodegenError): string {
+  const prefix: Record<CodegenErrorKind, string> = {
+    configuration: 'Codegen is not configured',
+    authentication: 'The LLM API rejected the API key',
+    rate_limit: 'Rate limited by the LLM API',
+    server: 'The LLM API is unavailable',
+    network: 'Could not reach the LLM API',
+    request: 'The LLM API refused the request',
+    invalid_response: 'The LLM API sent an invalid response',
+    aborted: 'Code generation was cancelled',
+    unknown: 'Code generation failed',
+  };
+  return `${prefix[error.kind]}: ${error.message}`;
+}
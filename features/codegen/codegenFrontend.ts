@@ -1,17 +1,107 @@
 import { CodeGenCommand, CommandType } from './codegenCommands';
-import { CodeAspectType, CodeFunctionData } from '@/store/codebase.types';
+import { CodeAspectType, CodeFunction, CodeFunctionData, type AspectRevisionSource, type CalleeChange, type CodegenProposal } from '@/store/codebase.types';
 import { useCodebaseStore, createCodeFunction } from '@/store/useCodebaseStore';
 import { AspectState } from '@/store/codebase.types';
-import { packageCodebaseState } from './codegenPackaging';
-import { invokeCodeGen } from '@/app/actions/codegen';
-import { CodegenTrigger } from './codegenBackend';
+import { packageCodebaseState, PackagedCodebase } from './codegenPackaging';
+import { CodegenTrigger, CodegenResult } from './codegenBackend';
+import { readSseMessages, CodegenStreamEvent } from './codegenStream';
+import { CodegenError, codegenErrorFromStatus } from './codegenErrors';
+import { findOptimalNodePlacement } from '@/utils/nodePlacement';
+import { NODE_CONSTANTS, NODE_WIDTH, calculateNodeHeight } from '@/constants/nodeConstants';
+
+// Route handler that streams code-generation events (app/api/codegen/stream/route.ts)
+const CODEGEN_STREAM_URL = '/api/codegen/stream';
 
 /**
  * Walks through an array of commands from the code-generation backend and
- * applies them sequentially to the Zustand store.
+ * applies them sequentially to the Zustand store. One call undoes as a single
+ * step, and so do consecutive calls with the same `historyGroup` (the commands
+ * of a streamed response). `source` is recorded in the revision history of updated aspects.
  */
-export function applyCodegenCommands(initialCmds: CodeGenCommand[]) {
+export function applyCodegenCommands(
+  initialCmds: CodeGenCommand[],
+  source?: AspectRevisionSource,
+  originFunctionId?: string,
+  historyGroup?: string
+) {
   console.log(`[DEBUG] Applying ${initialCmds.length} commands to the store (FIFO queue).`);
+  useCodebaseStore.getState().batchHistory(() => applyCommandQueue(initialCmds, source, originFunctionId), historyGroup);
+}
+
+/**
+ * Propose mode: turns commands into proposals for the user to review instead of
+ * applying them. Each proposal is shown on the function it targets (new
+ * functions on `originFunctionId`). Commands for unknown functions are dropped.
+ */
+function proposeCodegenCommands(cmds: CodeGenCommand[], source: AspectRevisionSource, changeSetId: string, originFunctionId?: string) {
+  const { codeFunctions, addProposals } = useCodebaseStore.getState();
+  const proposals = cmds.flatMap((command): CodegenProposal[] => {
+    const functionId = command.type === CommandType.CREATE_METHOD
+      ? originFunctionId
+      : codeFunctions.find((f) => f.identifier.descriptor === command.methodName)?.id;
+    if (!functionId) {
+      console.warn('Could not find function for proposal:', command);
+      return [];
+    }
+    return [{ id: crypto.randomUUID(), changeSetId, command, functionId, source }];
+  });
+  addProposals(proposals);
+}
+
+/**
+ * Applies the given proposals (in the order they were proposed) as a single
+ * undo step and removes them. Commands address the function they were proposed
+ * for, even if it has been renamed since. Accepting a deletion is the user's
+ * consent, so it isn't asked for again.
+ */
+export function acceptCodegenProposals(ids: string[]) {
+  const store = useCodebaseStore.getState();
+  const accepted = store.proposals.filter((p) => ids.includes(p.id));
+  store.removeProposals(ids);
+  store.batchHistory(() =>
+    accepted.forEach(({ command, functionId, source }) => {
+      const currentName = useCodebaseStore.getState().codeFunctions.find((f) => f.id === functionId)?.identifier.descriptor;
+      const cmd = 'methodName' in command && currentName !== undefined ? { ...command, methodName: currentName } : command;
+      applyCommandQueue([cmd], source, functionId, true);
+    })
+  );
+}
+
+/** Discards the given proposals. */
+export function rejectCodegenProposals(ids: string[]) {
+  useCodebaseStore.getState().removeProposals(ids);
+}
+
+/**
+ * Position for a new function: next to (right of) the first function whose
+ * implementation calls it, else next to the function that triggered codegen.
+ */
+function placeNewFunction(name: string, codeFunctions: CodeFunction[], originFunctionId?: string) {
+  const callPattern = new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\(`);
+  const anchor =
+    codeFunctions.find((f) => callPattern.test(f.implementation.descriptor)) ??
+    codeFunctions.find((f) => f.id === originFunctionId);
+
+  // Create existing nodes array for collision detection
+  const existingNodes = codeFunctions.map((func) => ({
+    id: func.id,
+    position: func.position,
+    width: NODE_WIDTH,
+    height: calculateNodeHeight(func),
+    data: { functionId: func.id },
+  }));
+
+  // Calls flow left to right, so aim one column to the right of the caller
+  const target = anchor
+    ? {
+        x: anchor.position.x + NODE_WIDTH * 1.5 + NODE_CONSTANTS.MARGIN,
+        y: anchor.position.y + calculateNodeHeight(anchor) / 2,
+      }
+    : { x: 100, y: 100 };
+  return findOptimalNodePlacement(target, existingNodes);
+}
+
+function applyCommandQueue(initialCmds: CodeGenCommand[], source?: AspectRevisionSource, originFunctionId?: string, deletionsConfirmed = false) {
   // FIFO queue for commands
   const queue: CodeGenCommand[] = [...initialCmds];
 
@@ -28,9 +118,14 @@ export function applyCodegenCommands(initialCmds: CodeGenCommand[]) {
 
     switch (cmd.type) {
       case CommandType.CREATE_METHOD: {
-        // Create the function with initial data in a single update
-        const newFunctionId = store.addCodeFunction(
-          { x: 100, y: 100 }, // Default position, will be adjusted by placement algorithm
+        const name = cmd.method.identifier.descriptor ?? '';
+        if (store.codeFunctions.some((f) => f.identifier.descriptor === name)) {
+          console.warn('Function already exists, not creating it again:', name);
+          break;
+        }
+        // Create the function with initial data in a single update, next to its caller
+        store.addCodeFunction(
+          placeNewFunction(name, store.codeFunctions, originFunctionId),
           cmd.method // Initial function data
         );
         // Example: enqueue further commands if needed
@@ -48,10 +143,10 @@ export function applyCodegenCommands(initialCmds: CodeGenCommand[]) {
         }
         store.updateCodeFunction(targetFunction.id, {
           [cmd.aspect]: { descriptor: cmd.value, state: AspectState.AUTOGEN },
-        });
+        }, source);
 
-        // Note: Automatic function creation has been removed.
-        // Functions are now created manually via double-click on function references.
+        // Note: Function calls in the implementation don't create functions by themselves.
+        // New functions come from explicit create_method commands or a double-click on the call.
         break;
       }
 
@@ -63,6 +158,11 @@ export function applyCodegenCommands(initialCmds: CodeGenCommand[]) {
           console.warn('Could not find method to delete:', cmd.methodName);
           break;
         }
+        // Deletions proposed by the model always need the user's consent (accepting the proposal gives it)
+        if (!deletionsConfirmed && !window.confirm(`The model proposes deleting the function '${cmd.methodName}', which is no longer used. Delete it? You can undo this with Ctrl+Z.`)) {
+          console.log('[DEBUG] Deletion declined by the user:', cmd.methodName);
+          break;
+        }
         store.removeCodeFunction(targetFunction.id);
         // enqueue(...)
         break;
@@ -150,20 +250,20 @@ export function calculateAspectsToGenerate(
 }
 
 /**
- * Helper function to invoke code generation for a specific function and aspect.
- * Packages the current codebase state and creates a trigger for the backend.
- * 
- * @param functionIndex - Index of the function in the codebase state
- * @param field - The aspect field being updated (e.g., 'implementation', 'specification')
- * @returns Promise resolving to an array of CodeGenCommand objects
+ * Packages the codebase state and creates the trigger for an edit of `field`
+ * in the function at `functionIndex`. Returns undefined if there is no such function.
+ * With `calleeChanges` (ripple regeneration), the function's own implementation is regenerated;
+ * with `reroll`, the edited aspect itself is regenerated (and the server's response cache bypassed);
+ * with `brief`, the function is the entry point of a new project drafted from that description.
  */
-export async function invokeCodegenForFunction(
+function createCodegenRequest(
   functionIndex: number,
-  field: string
-): Promise<CodeGenCommand[]> {
-  console.log(
-    `[DEBUG] Codegen invoked for function index ${functionIndex}, field ${field}`,
-  );
+  field: string,
+  generateCode?: boolean,
+  calleeChanges?: CalleeChange[],
+  reroll?: boolean,
+  brief?: string
+): { packagedState: PackagedCodebase; trigger: CodegenTrigger; base: CodeFunction[] } | undefined {
   const codebaseState = useCodebaseStore.getState();
 
   // Marshall the codebase state on the client
@@ -174,23 +274,171 @@ export async function invokeCodegenForFunction(
 
   if (!triggeredFunction) {
     console.warn('Could not find triggered function for codegen');
-    return [];
+    return undefined;
   }
 
   // Calculate which aspects should be generated
-  const aspectsToGenerate = calculateAspectsToGenerate(
-    field as CodeAspectType,
-    triggeredFunction
-  );
+  const aspectsToGenerate = calleeChanges?.length
+    ? calculateAspectsToGenerate(CodeAspectType.IMPLEMENTATION, triggeredFunction, true)
+    : calculateAspectsToGenerate(field as CodeAspectType, triggeredFunction, reroll);
 
   // Create the trigger object on the client
   const trigger: CodegenTrigger = {
     modifiedFunction: triggeredFunction,
     modifiedAspect: field as CodeAspectType,
     aspectsToGenerate,
+    generateCode,
+    ...(calleeChanges?.length ? { calleeChanges } : {}),
+    ...(reroll ? { reroll } : {}),
+    ...(brief ? { brief } : {}),
+    ...(Object.keys(codebaseState.promptSettings).length > 0 ? { prompts: codebaseState.promptSettings } : {}),
+  };
+  return { packagedState, trigger, base: codebaseState.codeFunctions };
+}
+
+// Values a streamed response has written itself, by `${functionId}:${aspect or 'code'}`
+type AppliedValues = Map<string, string>;
+
+/**
+ * Checks whether a command from a response still fits the current store: the
+ * response was generated from `base`, so a command must not overwrite an aspect
+ * (or code) that someone else changed in the meantime, or one that is locked now.
+ * Returns the reason for dropping the command, or undefined if it can be applied.
+ */
+function findConflict(cmd: CodeGenCommand, base: CodeFunction[], applied: AppliedValues): string | undefined {
+  if (cmd.type === CommandType.CREATE_METHOD) return undefined; // Existing functions are never overwritten
+
+  const current = useCodebaseStore.getState().codeFunctions.find((f) => f.identifier.descriptor === cmd.methodName);
+  const original = current && base.find((f) => f.id === current.id);
+  if (!current || !original) return undefined; // Missing functions are reported when applying; new ones have no base
+
+  const changedSinceBase = (key: CodeAspectType | 'code') => {
+    const value = key === 'code' ? current.code : current[key].descriptor;
+    const baseValue = key === 'code' ? original.code : original[key].descriptor;
+    return value !== baseValue && value !== applied.get(`${current.id}:${key}`);
   };
 
-  // This now calls the server action with the packaged state and trigger
-  return invokeCodeGen(packagedState, trigger);
+  switch (cmd.type) {
+    case CommandType.UPDATE_ASPECT:
+      if (current[cmd.aspect].state === AspectState.LOCKED) {
+        return `Dropped the generated ${cmd.aspect} of '${cmd.methodName}': it was locked while the model was working.`;
+      }
+      return changedSinceBase(cmd.aspect)
+        ? `Dropped the generated ${cmd.aspect} of '${cmd.methodName}': it was edited while the model was working.`
+        : undefined;
+    case CommandType.UPDATE_METHOD_CODE:
+      return changedSinceBase('code')
+        ? `Dropped the generated code of '${cmd.methodName}': it changed while the model was working.`
+        : undefined;
+    case CommandType.DELETE_METHOD:
+      return Object.values(CodeAspectType).some(changedSinceBase)
+        ? `Did not delete '${cmd.methodName}': it was edited while the model was working.`
+        : undefined;
+  }
 }
 
+export interface StreamCodegenOptions {
+  generateCode?: boolean; // Also (re)write the function's source code
+  calleeChanges?: CalleeChange[]; // Ripple regeneration of the implementation
+  reroll?: boolean; // Regenerate the edited aspect too, bypassing the response cache
+  brief?: string; // Draft a new project from this description, with the function as its entry point
+  signal?: AbortSignal; // Aborts the request; commands applied so far are kept
+  onStart?: (model: string) => void;
+  onPartial?: (partial: { methodName: string; aspect: CodeAspectType; text: string }) => void;
+}
+
+/**
+ * Runs code generation for a function and aspect: each command is applied to
+ * the store as soon as the backend reports it, and `onPartial` receives the
+ * text of aspects that are still being generated. With `generateCode`, the
+ * function's source code is (re)written in the project's target language as well.
+ *
+ * Commands that conflict with changes made since the request was packaged
+ * (see `findConflict`) are dropped and reported as warnings. In propose mode,
+ * the commands become proposals in the store instead of being applied. Use the codegen
+ * queue (`enqueueCodegen`) rather than calling this directly from the UI.
+ *
+ * @returns Promise resolving to the applied (or proposed) commands, warnings, rationale and model
+ */
+export async function streamCodegenForFunction(
+  functionIndex: number,
+  field: string,
+  { generateCode, calleeChanges, reroll, brief, signal, onStart, onPartial }: StreamCodegenOptions = {}
+): Promise<CodegenResult> {
+  console.log(
+    `[DEBUG] Streaming codegen invoked for function index ${functionIndex}, field ${field}${generateCode ? ' (with code)' : ''}`,
+  );
+  const request = createCodegenRequest(functionIndex, field, generateCode, calleeChanges, reroll, brief);
+  if (!request) return { commands: [], warnings: [], rationale: '', model: '' };
+  const originFunctionId = useCodebaseStore.getState().codeFunctions[functionIndex]?.id;
+
+  const response = await fetch(CODEGEN_STREAM_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ snapshot: request.packagedState, trigger: request.trigger }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw codegenErrorFromStatus(response.status, `Codegen stream failed: ${response.status} ${response.statusText}`);
+  }
+
+  const commands: CodeGenCommand[] = [];
+  const conflicts: string[] = [];
+  const applied: AppliedValues = new Map();
+  const changeSetId = crypto.randomUUID();
+  let model = '';
+  let rationale = ''; // Arrives before the first command and is kept in the revision history
+  for await (const message of readSseMessages(response.body)) {
+    signal?.throwIfAborted(); // Events may still be buffered after an abort
+    const event = JSON.parse(message.data) as CodegenStreamEvent;
+    switch (event.type) {
+      case 'start':
+        model = event.model;
+        onStart?.(model);
+        break;
+      case 'rationale':
+        rationale = event.text;
+        break;
+      case 'partial': {
+        const { type: _type, ...partial } = event;
+        onPartial?.(partial);
+        break;
+      }
+      case 'command': {
+        const cmd = event.command;
+        const conflict = findConflict(cmd, request.base, applied);
+        if (conflict) {
+          console.warn('[DEBUG] Dropping conflicting command:', conflict);
+          conflicts.push(conflict);
+          break;
+        }
+        const source: AspectRevisionSource = {
+          kind: 'llm',
+          model,
+          triggerAspect: field as CodeAspectType,
+          ...(rationale ? { rationale } : {}),
+        };
+        commands.push(cmd);
+        if (useCodebaseStore.getState().proposeChanges) {
+          proposeCodegenCommands([cmd], source, changeSetId, originFunctionId);
+          break;
+        }
+
+        const targetId = 'methodName' in cmd
+          ? useCodebaseStore.getState().codeFunctions.find((f) => f.identifier.descriptor === cmd.methodName)?.id
+          : undefined;
+        applyCodegenCommands([cmd], source, originFunctionId, changeSetId); // The whole response undoes as one step
+
+        // Remember what this response wrote, so its own changes don't count as conflicts
+        if (targetId && cmd.type === CommandType.UPDATE_ASPECT) applied.set(`${targetId}:${cmd.aspect}`, cmd.value);
+        if (targetId && cmd.type === CommandType.UPDATE_METHOD_CODE) applied.set(`${targetId}:code`, cmd.value);
+        break;
+      }
+      case 'done':
+        return { commands, warnings: [...conflicts, ...event.warnings], rationale: event.rationale || rationale, model, usage: event.usage };
+      case 'error':
+        throw new CodegenError(event.kind, event.message);
+    }
+  }
+  throw new CodegenError('network', 'Codegen stream ended unexpectedly');
+}
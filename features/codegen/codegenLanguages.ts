@@ -0,0 +1,91 @@
+import { CodeAspectType, type TargetLanguage } from '@/store/codebase.types';
+
+// ---------------------------------------------------------------------------
+// Target languages for the generated source code (`CodeFunction.code`)
+// ---------------------------------------------------------------------------
+
+export interface TargetLanguageInfo {
+  label: string;
+  fileExtension: string;
+}
+
+export const TARGET_LANGUAGES: Record<TargetLanguage, TargetLanguageInfo> = {
+  python: { label: 'Python', fileExtension: 'py' },
+  typescript: { label: 'TypeScript', fileExtension: 'ts' },
+  go: { label: 'Go', fileExtension: 'go' },
+};
+
+// The aspects are written with simplified Python in mind, so it's the natural default
+export const DEFAULT_TARGET_LANGUAGE: TargetLanguage = 'python';
+
+export const isTargetLanguage = (value: unknown): value is TargetLanguage =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(TARGET_LANGUAGES, value);
+
+// "formatReport(data)" / "format report" -> "formatReport" / "format_report", usable as a function name
+export const toFunctionName = (identifier: string): string => {
+  const name = identifier.split('(')[0].trim().replace(/\W+/g, '_');
+  return /^[A-Za-z_]/.test(name) ? name : `fn_${name}`;
+};
+
+// "format(text, width) -> str" -> ['text', 'width']
+export const parseParameters = (signature: string): string[] => {
+  const inside = signature.match(/\(([^)]*)\)/)?.[1] ?? '';
+  return inside
+    .split(',')
+    .map((parameter) => parameter.split(/[:=]/)[0].trim())
+    .filter((parameter) => /^[A-Za-z_]\w*$/.test(parameter));
+};
+
+// "log(message) -> None" declares no return value
+export const hasReturnValue = (signature: string): boolean => !/->\s*None\s*$/.test(signature);
+
+/**
+ * Translates the aspects of a function into a stub in the target language: the
+ * specification becomes the doc comment and each implementation sentence a
+ * comment (followed by the calls it mentions, with `includeCalls`). The body
+ * ends by raising a "not implemented" error.
+ */
+export const renderFunctionStub = (
+  aspects: Record<CodeAspectType, string>,
+  language: TargetLanguage,
+  options: { includeCalls?: boolean } = {}
+): string => {
+  const name = toFunctionName(aspects.identifier || 'unnamed');
+  const parameters = parseParameters(aspects.signature);
+  const returnsValue = hasReturnValue(aspects.signature);
+  const specification = aspects.specification.trim() || 'Not specified yet.';
+  const bodyLines = aspects.implementation
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .flatMap((line) => [
+      { comment: line },
+      ...(options.includeCalls ? line.match(/[A-Za-z_]\w*\([^)]*\)/g) ?? [] : []).map((call) => ({ call })),
+    ]);
+
+  switch (language) {
+    case 'python':
+      return [
+        `def ${name}(${parameters.join(', ')}):`,
+        `    """${specification.replace(/"""/g, '\\"\\"\\"')}"""`,
+        ...bodyLines.map((line) => ('comment' in line ? `    # ${line.comment}` : `    ${line.call}`)),
+        `    raise NotImplementedError("${name}")`,
+      ].join('\n');
+    case 'typescript':
+      return [
+        `/** ${specification.replace(/\*\//g, '* /')} */`,
+        `function ${name}(${parameters.map((p) => `${p}: unknown`).join(', ')}): ${returnsValue ? 'unknown' : 'void'} {`,
+        ...bodyLines.map((line) => ('comment' in line ? `  // ${line.comment}` : `  ${line.call};`)),
+        `  throw new Error('Not implemented: ${name}');`,
+        '}',
+      ].join('\n');
+    case 'go':
+      return [
+        `// ${name}: ${specification.replace(/\n/g, '\n// ')}`,
+        `func ${name}(${parameters.map((p) => `${p} any`).join(', ')})${returnsValue ? ' any' : ''} {`,
+        ...bodyLines.map((line) => ('comment' in line ? `\t// ${line.comment}` : `\t${line.call}`)),
+        `\tpanic("not implemented: ${name}")`,
+        '}',
+      ].join('\n');
+  }
+};
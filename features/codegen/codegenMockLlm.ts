@@ -0,0 +1,208 @@
+import { AspectState, CodeAspectType } from '@/store/codebase.types';
+import { CodeGenCommand, CommandType } from './codegenCommands';
+import { CodegenTrigger } from './codegenBackend';
+import { PackagedCodebase, PackagedCodeFunction } from './codegenPackaging';
+import { CodegenProvider, CodegenProviderOutput } from './codegenProviders';
+import type { CodegenProgressEvent } from './codegenStream';
+import { renderFunctionStub } from './codegenLanguages';
+
+// ---------------------------------------------------------------------------
+// Deterministic offline provider for demos and development without an API key
+// or network access. Derives plausible aspects from the function name using a
+// few naming heuristics, and source code as a stub translated from the aspects;
+// a brief becomes one helper function per sentence. The same input always
+// produces the same output.
+// ---------------------------------------------------------------------------
+
+export const MOCK_LLM_MODEL = 'offline-mock';
+
+// Return type guessed from the leading verb of a function name
+const RETURN_TYPES: Array<[string[], string]> = [
+  [['is', 'has', 'can', 'should', 'validate', 'check', 'contains'], 'bool'],
+  [['count', 'calculate', 'compute', 'sum', 'measure', 'score'], 'float'],
+  [['format', 'render', 'describe', 'to', 'print', 'stringify', 'generate'], 'str'],
+  [['list', 'collect', 'filter', 'sort', 'split', 'find'], 'list'],
+  [['get', 'load', 'fetch', 'read', 'parse', 'create', 'build', 'make', 'process', 'transform'], 'dict'],
+];
+
+// "formatText(...)" / "format_text" -> ['format', 'text']
+const splitName = (name: string): string[] =>
+  name
+    .split('(')[0]
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[\s_\-]+/)
+    .map((word) => word.toLowerCase())
+    .filter(Boolean);
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const toCamelCase = (words: string[]) => words.map((word, index) => (index === 0 ? word : capitalize(word))).join('');
+
+// "format" -> "Formats", "process" -> "Processes", "apply" -> "Applies"
+const thirdPerson = (verb: string) => {
+  if (/(s|sh|ch|x|z)$/.test(verb)) return `${capitalize(verb)}es`;
+  if (/[^aeiou]y$/.test(verb)) return `${capitalize(verb.slice(0, -1))}ies`;
+  return `${capitalize(verb)}s`;
+};
+
+interface NameParts {
+  name: string;
+  verb: string;
+  objectWords: string[]; // What the function operates on
+  parameter: string;
+  returnType: string;
+}
+
+const analyzeName = (func: PackagedCodeFunction): NameParts => {
+  const words = splitName(func.identifier.descriptor);
+  // No name yet: borrow the first words of the specification
+  return analyzeWords(words.length > 0 ? words : splitName(func.specification.descriptor.split(/[.\n]/)[0]).slice(0, 3));
+};
+
+const analyzeWords = (words: string[]): NameParts => {
+  if (words.length === 0) words = ['process', 'input'];
+
+  const [verb, ...objectWords] = words.length > 1 ? words : [words[0], 'input'];
+  const returnType = RETURN_TYPES.find(([verbs]) => verbs.includes(verb))?.[1] ?? 'None';
+  return {
+    name: toCamelCase(words),
+    verb,
+    objectWords,
+    parameter: toCamelCase(objectWords),
+    returnType,
+  };
+};
+
+const generateAspect = (aspect: CodeAspectType, parts: NameParts): string => {
+  const objectText = parts.objectWords.join(' ');
+  const helperSuffix = parts.objectWords.map(capitalize).join('');
+
+  switch (aspect) {
+    case CodeAspectType.IDENTIFIER:
+      return parts.name;
+    case CodeAspectType.SIGNATURE:
+      return `${parts.name}(${parts.parameter}) -> ${parts.returnType}`;
+    case CodeAspectType.SPECIFICATION:
+      return parts.returnType === 'None'
+        ? `${thirdPerson(parts.verb)} the given ${objectText}.`
+        : `${thirdPerson(parts.verb)} the given ${objectText} and returns the result as a ${parts.returnType}.`;
+    case CodeAspectType.IMPLEMENTATION:
+      return [
+        `Check that the ${objectText} is usable with validate${helperSuffix}(${parts.parameter}).`,
+        `${capitalize(parts.verb)} the ${objectText} step by step.`,
+        parts.returnType === 'None' ? 'Report completion with logMessage().' : `Return the ${parts.returnType} result.`,
+      ].join('\n');
+  }
+};
+
+// Words that make poor function names
+const FILLER_WORDS = ['a', 'an', 'the', 'and', 'or', 'then', 'it', 'its', 'their', 'each', 'every', 'all', 'is', 'are', 'be', 'can', 'will', 'should', 'to', 'of', 'for', 'by', 'in'];
+const MAX_BRIEF_STEPS = 5;
+
+/**
+ * New project from a brief: the entry point calls one helper per sentence of
+ * the brief (named after its first words), and each helper is created.
+ */
+function mockDraftProject(snapshot: PackagedCodebase, trigger: CodegenTrigger): { commands: CodeGenCommand[]; rationale: string } {
+  const sentences = (trigger.brief ?? '').split(/[.!?\n]+/).map((sentence) => sentence.trim()).filter(Boolean);
+  const steps = sentences
+    .map((sentence) => analyzeWords(splitName(sentence).filter((word) => !FILLER_WORDS.includes(word)).slice(0, 3)))
+    .filter((step, index, all) => all.findIndex((other) => other.name === step.name) === index)
+    .slice(0, MAX_BRIEF_STEPS);
+
+  const methodName = trigger.modifiedFunction.identifier.descriptor;
+  const entryAspects: Partial<Record<CodeAspectType, string>> = {
+    [CodeAspectType.SIGNATURE]: `${methodName}() -> None`,
+    [CodeAspectType.SPECIFICATION]: `Entry point of ${snapshot.project}. ${sentences[0] ?? 'Runs the system'}.`,
+    [CodeAspectType.IMPLEMENTATION]: steps
+      .map((step) => `${capitalize(step.verb)} the ${step.objectWords.join(' ')} with ${step.name}(${step.parameter}).`)
+      .join('\n'),
+  };
+  const commands: CodeGenCommand[] = [
+    ...trigger.aspectsToGenerate
+      .filter((aspect) => entryAspects[aspect] !== undefined)
+      .map((aspect) => ({
+        type: CommandType.UPDATE_ASPECT as const,
+        className: snapshot.project,
+        methodName,
+        aspect,
+        value: entryAspects[aspect]!,
+      })),
+    ...steps.map((step) => ({
+      type: CommandType.CREATE_METHOD as const,
+      className: snapshot.project,
+      method: {
+        identifier: { descriptor: step.name, state: AspectState.EDITED }, // Like helpers from the LLM (see toolCallToCommand)
+        signature: { descriptor: generateAspect(CodeAspectType.SIGNATURE, step), state: AspectState.AUTOGEN },
+        specification: { descriptor: generateAspect(CodeAspectType.SPECIFICATION, step), state: AspectState.AUTOGEN },
+        implementation: { descriptor: generateAspect(CodeAspectType.IMPLEMENTATION, step), state: AspectState.AUTOGEN },
+        code: '',
+      },
+    })),
+  ];
+  const rationale = `Split the brief into ${steps.length} step${steps.length === 1 ? '' : 's'}, one helper function per sentence (offline mock, no LLM involved).`;
+  return { commands, rationale };
+}
+
+/**
+ * Generates the requested aspects (and, if asked, the source code) of the
+ * triggering function without calling an LLM.
+ */
+async function mockGenerateCode(
+  snapshot: PackagedCodebase,
+  trigger: CodegenTrigger,
+  onProgress?: (event: CodegenProgressEvent) => void
+): Promise<CodegenProviderOutput> {
+  console.log(`[DEBUG] Mock LLM called with trigger aspect: ${trigger.modifiedAspect}, generating: ${trigger.aspectsToGenerate.join(', ')}`);
+
+  if (trigger.brief) {
+    const { commands, rationale } = mockDraftProject(snapshot, trigger);
+    onProgress?.({ type: 'rationale', text: rationale });
+    commands.forEach((command) => onProgress?.({ type: 'command', command }));
+    return { commands, warnings: [], rationale, usage: { inputTokens: 0, outputTokens: 0 } };
+  }
+
+  const func = trigger.modifiedFunction;
+  const parts = analyzeName(func);
+  const methodName = func.identifier.descriptor;
+
+  const commands = trigger.aspectsToGenerate.map((aspect) => ({
+    type: CommandType.UPDATE_ASPECT as const,
+    className: snapshot.project,
+    methodName,
+    aspect,
+    value: generateAspect(aspect, parts),
+  }));
+  const allCommands: CodeGenCommand[] = [...commands];
+  if (trigger.generateCode) {
+    // Translate the aspects as they are after this generation
+    const aspects = Object.fromEntries(
+      Object.values(CodeAspectType).map((aspect) => [
+        aspect,
+        commands.find((command) => command.aspect === aspect)?.value ?? func[aspect].descriptor,
+      ])
+    ) as Record<CodeAspectType, string>;
+    allCommands.push({
+      type: CommandType.UPDATE_METHOD_CODE,
+      className: snapshot.project,
+      methodName,
+      value: renderFunctionStub(aspects, snapshot.language, { includeCalls: true }),
+    });
+  }
+
+  const generated = [...trigger.aspectsToGenerate, ...(trigger.generateCode ? ['code'] : [])];
+  const rationale = generated.length > 0
+    ? `Derived the ${generated.join(', ')} of \`${methodName}\` from its name (offline mock, no LLM involved).`
+    : 'Nothing to generate: all following aspects are locked.';
+  onProgress?.({ type: 'rationale', text: rationale });
+  allCommands.forEach((command) => onProgress?.({ type: 'command', command }));
+  return { commands: allCommands, warnings: [], rationale, usage: { inputTokens: 0, outputTokens: 0 } };
+}
+
+export function createMockProvider(): CodegenProvider {
+  return {
+    name: 'mock',
+    model: MOCK_LLM_MODEL,
+    generate: mockGenerateCode,
+  };
+}
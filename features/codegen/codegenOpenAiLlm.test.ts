@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { AspectState, CodeAspectType } from '@/store/codebase.types';
+import type { CodegenTrigger } from './codegenBackend';
+import type { PackagedCodebase, PackagedCodeFunction } from './codegenPackaging';
+import type { CodegenProgressEvent } from './codegenStream';
+import { createOpenAiCompatibleProvider } from './codegenOpenAiLlm';
+
+const func: PackagedCodeFunction = {
+  identifier: { descriptor: 'formatText', state: AspectState.EDITED },
+  signature: { descriptor: '', state: AspectState.UNSET },
+  specification: { descriptor: '', state: AspectState.UNSET },
+  implementation: { descriptor: '', state: AspectState.UNSET },
+  code: '',
+};
+const snapshot: PackagedCodebase = { project: 'Test', language: 'python', functions: [func] };
+const trigger: CodegenTrigger = {
+  modifiedFunction: func,
+  modifiedAspect: CodeAspectType.IDENTIFIER,
+  aspectsToGenerate: [CodeAspectType.SIGNATURE, CodeAspectType.SPECIFICATION],
+};
+
+const updateAspect = (aspect: CodeAspectType, value: string) =>
+  JSON.stringify({ methodName: 'formatText', aspect, value });
+
+// A streamed chat completion with the given chunks, as server-sent events
+const completion = (chunks: object[]) =>
+  new Response(
+    chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n',
+    { headers: { 'Content-Type': 'text/event-stream' } }
+  );
+
+const toolCallChunk = (index: number, id: string, args: string) => ({
+  choices: [{ delta: { tool_calls: [{ index, id, function: { name: 'update_aspect', arguments: args } }] } }],
+});
+
+describe('OpenAI-compatible provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('asks once for the rest of a response cut off by the output limit', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(completion([
+        { choices: [{ delta: { content: 'Derived from the name.' } }] },
+        toolCallChunk(0, 'call_a', updateAspect(CodeAspectType.SIGNATURE, '(text: str) -> str')),
+        toolCallChunk(1, 'call_b', '{"methodName": "formatText", "asp'),
+        { choices: [{ delta: {}, finish_reason: 'length' }], usage: { prompt_tokens: 100, completion_tokens: 50 } },
+      ]))
+      .mockResolvedValueOnce(completion([
+        toolCallChunk(0, 'call_c', updateAspect(CodeAspectType.SPECIFICATION, 'Formats the text.')),
+        { choices: [{ delta: {}, finish_reason: 'tool_calls' }], usage: { prompt_tokens: 150, completion_tokens: 20 } },
+      ]));
+    vi.stubGlobal('fetch', fetchMock);
+    const events: CodegenProgressEvent[] = [];
+
+    const output = await createOpenAiCompatibleProvider('test-model').generate(snapshot, trigger, (event) => events.push(event));
+
+    expect(output.commands.map((command) => command.type === 'update_aspect' && command.aspect))
+      .toEqual([CodeAspectType.SIGNATURE, CodeAspectType.SPECIFICATION]);
+    expect(events.filter((event) => event.type === 'command')).toHaveLength(2);
+    expect(output.warnings).toEqual([]);
+    expect(output.rationale).toBe('Derived from the name.');
+    expect(output.usage).toEqual({ inputTokens: 250, outputTokens: 70 });
+
+    // The continuation confirms the complete call only
+    const { messages } = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(messages.slice(2)).toEqual([
+      {
+        role: 'assistant',
+        content: 'Derived from the name.',
+        tool_calls: [{ id: 'call_a', type: 'function', function: { name: 'update_aspect', arguments: updateAspect(CodeAspectType.SIGNATURE, '(text: str) -> str') } }],
+      },
+      { role: 'tool', tool_call_id: 'call_a', content: 'Applied.' },
+      { role: 'user', content: expect.stringContaining('cut off') },
+    ]);
+  });
+
+  it('keeps the truncation warning if nothing complete can be confirmed', async () => {
+    const truncated = () => completion([
+      toolCallChunk(0, 'call_a', '{"methodName": "formatText"'),
+      { choices: [{ delta: {}, finish_reason: 'length' }] },
+    ]);
+    const fetchMock = vi.fn().mockImplementation(async () => truncated());
+    vi.stubGlobal('fetch', fetchMock);
+
+    const output = await createOpenAiCompatibleProvider('test-model').generate(snapshot, trigger);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1); // Nothing complete to confirm: no continuation
+    expect(output.commands).toEqual([]);
+    expect(output.warnings).toEqual(['The response was cut off; some changes may be missing.']);
+  });
+});
@@ -0,0 +1,227 @@
+import { CodegenTrigger } from './codegenBackend';
+import { PackagedCodebase } from './codegenPackaging';
+import { CodegenProvider, CodegenProviderOutput } from './codegenProviders';
+import { buildCodegenPrompt, buildSystemPrompt } from './codegenPrompt';
+import { CODEGEN_TOOLS, commandsFromToolCalls, partialAspectUpdate, toolCallToCommand, type ToolCall } from './codegenTools';
+import { readSseMessages, type CodegenProgressEvent } from './codegenStream';
+import { CodegenError, codegenErrorFromStatus } from './codegenErrors';
+
+// ---------------------------------------------------------------------------
+// Configuration constants for OpenAI-compatible endpoints (OpenAI itself, or
+// local model servers such as Ollama, LM Studio, vLLM or llama.cpp)
+// ---------------------------------------------------------------------------
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+export const OPENAI_MAX_TOKENS = 2048;
+
+// One chunk of a streamed chat completion (`stream: true`)
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null; // Last chunk, with `stream_options.include_usage`
+}
+
+// Request messages, including the tool calls of a truncated response and their results
+type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }> }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+// One streamed response
+interface CompletionResult {
+  calls: Array<{ id: string; name: string; arguments: string }>; // Without the call cut off by the output limit
+  text: string;
+  finishReason: string | null | undefined;
+  usage: { inputTokens: number; outputTokens: number }; // Zero for servers without usage reporting
+}
+
+/**
+ * Code generation through any server implementing the OpenAI chat completions API
+ * with function calling (one function per command type). The response is streamed
+ * so commands can be reported as soon as they are complete.
+ * A response cut off by the output limit gets one continuation request.
+ */
+export function createOpenAiCompatibleProvider(model: string = OPENAI_DEFAULT_MODEL): CodegenProvider {
+  return {
+    name: 'openai',
+    model,
+    generate: (snapshot, trigger, onProgress, signal) => openAiGenerateCode(snapshot, trigger, model, onProgress, signal),
+  };
+}
+
+// Sent after a response that hit the output limit, with the complete tool calls confirmed
+const CONTINUATION_PROMPT =
+  'Your response was cut off by the output limit. Continue with the remaining tool calls; don\'t repeat the ones above.';
+
+/**
+ * Streams one chat completion, reporting commands as soon as their tool call is
+ * complete and partial aspect text while it is generated.
+ */
+async function streamCompletion(
+  model: string,
+  messages: ChatMessage[],
+  snapshot: PackagedCodebase,
+  onProgress?: (event: CodegenProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<CompletionResult> {
+  const baseUrl = (process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: OPENAI_MAX_TOKENS,
+      stream: true,
+      stream_options: { include_usage: true },
+      messages,
+      tools: CODEGEN_TOOLS.map((tool) => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw codegenErrorFromStatus(
+      response.status,
+      `OpenAI-compatible endpoint returned ${response.status} ${response.statusText}: ${body.slice(0, 500)}`,
+      response.headers.get('retry-after')
+    );
+  }
+
+  if (!response.body) {
+    throw new CodegenError('invalid_response', 'OpenAI-compatible endpoint returned an empty response');
+  }
+
+  // Tool calls arrive as argument fragments, collected per tool call index.
+  // A call is complete once the next one starts or the stream ends.
+  const calls: CompletionResult['calls'] = [];
+  let text = '';
+  let finishReason: string | null | undefined;
+  const usage = { inputTokens: 0, outputTokens: 0 };
+  const reportCommand = (index: number) => {
+    const call = calls[index];
+    if (!call || !onProgress) return;
+    try {
+      const result = toolCallToCommand(call.name, JSON.parse(call.arguments || '{}'), snapshot.project);
+      if ('command' in result) onProgress({ type: 'command', command: result.command });
+    } catch {
+      // Malformed arguments are reported as a warning by openAiGenerateCode
+    }
+  };
+
+  for await (const message of readSseMessages(response.body)) {
+    if (message.data === '[DONE]') break;
+    const chunk = JSON.parse(message.data) as ChatCompletionChunk;
+    if (chunk.usage) {
+      console.log('[DEBUG] OpenAI-compatible usage:', JSON.stringify(chunk.usage));
+      usage.inputTokens = chunk.usage.prompt_tokens ?? 0;
+      usage.outputTokens = chunk.usage.completion_tokens ?? 0;
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+    text += choice.delta?.content ?? '';
+    finishReason = choice.finish_reason ?? finishReason;
+
+    (choice.delta?.tool_calls ?? []).forEach((delta) => {
+      // The rationale precedes the tool calls, so it is complete once the first one starts
+      if (calls.length === 0 && text.trim()) onProgress?.({ type: 'rationale', text: text.trim() });
+      if (!calls[delta.index]) {
+        reportCommand(delta.index - 1);
+        // Some local servers send no ids; the continuation request needs one per call
+        calls[delta.index] = { id: delta.id ?? `call_${delta.index}`, name: '', arguments: '' };
+      }
+      const call = calls[delta.index];
+      call.name += delta.function?.name ?? '';
+      call.arguments += delta.function?.arguments ?? '';
+      const partial = partialAspectUpdate(call.name, call.arguments);
+      if (partial) onProgress?.({ type: 'partial', ...partial });
+    });
+  }
+
+  // The last call of a truncated response is incomplete
+  if (finishReason === 'length') calls.pop();
+  else reportCommand(calls.length - 1);
+  return { calls, text, finishReason, usage };
+}
+
+async function openAiGenerateCode(
+  snapshot: PackagedCodebase,
+  trigger: CodegenTrigger,
+  model: string,
+  onProgress?: (event: CodegenProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<CodegenProviderOutput> {
+  console.log(`[DEBUG] OpenAI-compatible LLM (${process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL}, ${model}) called with trigger aspect: ${trigger.modifiedAspect}`);
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: buildSystemPrompt(snapshot, trigger) },
+    { role: 'user', content: buildCodegenPrompt(snapshot, trigger) },
+  ];
+  const responses = [await streamCompletion(model, messages, snapshot, onProgress, signal)];
+
+  // Truncated output: confirm the complete tool calls and ask once for the rest
+  const first = responses[0];
+  if (first.finishReason === 'length' && (first.calls.length > 0 || first.text.trim())) {
+    console.log('[DEBUG] Response was cut off, requesting a continuation');
+    messages.push(
+      {
+        role: 'assistant',
+        content: first.text || null,
+        tool_calls: first.calls.map((call) => ({ id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } })),
+      },
+      ...first.calls.map((call): ChatMessage => ({ role: 'tool', tool_call_id: call.id, content: 'Applied.' })),
+      { role: 'user', content: CONTINUATION_PROMPT }
+    );
+    // The rationale is the one from the first response
+    const continuationProgress = onProgress && ((event: CodegenProgressEvent) => {
+      if (event.type !== 'rationale') onProgress(event);
+    });
+    responses.push(await streamCompletion(model, messages, snapshot, continuationProgress, signal));
+  }
+
+  const rationale = first.text.trim();
+  console.log('[DEBUG] LLM rationale:', rationale);
+  const calls = responses.flatMap((response) => response.calls);
+  if (first.calls.length === 0 && rationale) onProgress?.({ type: 'rationale', text: rationale });
+
+  // Arguments arrive as JSON strings; unparseable ones are reported like schema violations
+  const warnings: string[] = [];
+  const toolCalls: ToolCall[] = [];
+  calls.forEach((call) => {
+    const name = call.name || '(unnamed)';
+    try {
+      toolCalls.push({ name, input: JSON.parse(call.arguments || '{}') });
+    } catch {
+      warnings.push(`Ignored a ${name} call with malformed arguments`);
+    }
+  });
+
+  const output = commandsFromToolCalls(toolCalls, snapshot.project);
+  warnings.push(...output.warnings);
+  const usage = {
+    inputTokens: responses.reduce((sum, response) => sum + response.usage.inputTokens, 0),
+    outputTokens: responses.reduce((sum, response) => sum + response.usage.outputTokens, 0),
+  };
+
+  // Still truncated: keep the complete tool calls, but tell the user something may be missing
+  if (responses[responses.length - 1].finishReason === 'length') {
+    warnings.push('The response was cut off; some changes may be missing.');
+  } else if (toolCalls.length === 0 && warnings.length === 0) {
+    warnings.push(rationale ? `The model made no changes: ${rationale}` : 'The model made no changes.');
+  }
+  return { commands: output.commands, warnings, rationale, usage };
+}
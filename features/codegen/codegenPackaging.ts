@@ -3,6 +3,7 @@ import {
   CodebaseState,
   CodeFunction,
   CodeAspect,
+  TargetLanguage,
 } from '@/store/codebase.types';
 
 /**
@@ -22,9 +23,18 @@ export interface PackagedCodeFunction {
   code: string;
 }
 
+/** Compact entry of a function that is only indexed in the prompt, not sent in full. */
+export interface PackagedFunctionSummary {
+  identifier: string;
+  signature?: string;
+}
+
 export interface PackagedCodebase {
   project: string;
+  language: TargetLanguage; // Language of the functions' `code`
   functions: PackagedCodeFunction[];
+  otherFunctions?: PackagedFunctionSummary[]; // Set by buildCodegenContext (codegenContext.ts)
+  omittedFunctionCount?: number; // Functions left out entirely to stay within the token budget
 }
 
 /**
@@ -33,7 +43,7 @@ export interface PackagedCodebase {
  * This snapshot contains the essential logical context of the codebase, including
  * class and method details, but excludes UI-specific state like node positions.
  */
-export function packageCodebaseState(state: CodebaseState): PackagedCodebase {
+export function packageCodebaseState(state: Pick<CodebaseState, 'projectName' | 'targetLanguage' | 'codeFunctions'>): PackagedCodebase {
   // return {
   //   codeClass: { descriptor: state.codeClass.descriptor, state: state.codeClass.state },
   //   functions: state.codeFunctions.map((f: CodeFunction) => ({
@@ -47,6 +57,7 @@ export function packageCodebaseState(state: CodebaseState): PackagedCodebase {
   // };
   return {
     project: state.projectName,
+    language: state.targetLanguage,
     functions: state.codeFunctions.map((f: CodeFunction) => ({
       identifier: { descriptor: f.identifier.descriptor, state: f.identifier.state },
       signature: { descriptor: f.signature.descriptor, state: f.signature.state },
@@ -0,0 +1,167 @@
+import type { CodegenTrigger } from './codegenBackend';
+import type { PackagedCodebase } from './codegenPackaging';
+import type { PromptSettings } from '@/store/codebase.types';
+import { TARGET_LANGUAGES } from './codegenLanguages';
+import { describeCalleeChanges } from './codegenRipple';
+
+// ---------------------------------------------------------------------------
+// Prompt shared by all LLM providers (commands come back as tool calls, see codegenTools.ts).
+// The system and user prompts are rendered from templates: the defaults below,
+// or the project's own (`PromptSettings`, sent along as `CodegenTrigger.prompts`).
+// ---------------------------------------------------------------------------
+
+/** Variables available in both templates, written as `{{name}}`. */
+export const PROMPT_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'project', description: 'Project name' },
+  { name: 'language', description: 'Target language of the source code, e.g. Python' },
+  { name: 'function', description: 'Identifier of the function being generated' },
+  { name: 'aspectsToGenerate', description: 'Aspects the model should generate, comma-separated' },
+  { name: 'glossary', description: "The project's glossary with a heading (empty if there is none)" },
+  { name: 'change', description: 'What the user changed: the new aspect value, the changed callees in ripple regeneration, or the brief of a new project' },
+  { name: 'codeRequest', description: 'The request to write source code, if the user asked for it (else empty)' },
+  { name: 'snapshot', description: 'The codebase snapshot as JSON' },
+];
+
+export const DEFAULT_SYSTEM_PROMPT_TEMPLATE = `You are performing code-generation-adjacent tasks. You're mostly working with an abstract list of functions, however. For data types and general language features, think of
+very simplified Python.
+
+The codebase is a series of pure functions. Functions can call each other or imaginary external functions.
+For the generated code, we're not dealing with classes, packages, or modules. It's just fairly simple functions.
+
+Each function is defined by the following four 'parameters', which we're calling *aspects*:
+* identifier: the function's name
+* signature: its parameters and return type
+* specification: the description of the function, including use cases: what it can do and what it needs to do that. Think of this as the function's docstring!
+* implementation: a textual description of the function's logic, including a *complete* list of all function calls it can invoke. *Not* source code! *Not* markdown either. May contain paragraph breaks for structure. Think of it as the sequence of all code block comments in the function's body. You may specifically mention branches and loops here.
+
+The implementation aspect can and *should* include function calls. They are displayed as 'functionName(arg1, arg2, ...)', with all arguments being optional. Do not wrap function calls in backticks.
+The system will collect all function calls from the implementation string you're generating, and this will build the call hierarchy of the entire codebase, so this is a very important aspect to generate!
+Make sure you generate the paratheses behind the function call, even if you're only referring to the function abstractly and without specific arguments/parameters, otherwise it won't be interpreted as a function call by the rest of the system.
+
+We're considering the four aspects a descending hierarchy of specificity. That is, the signature follows the identifier, the specification follows the signature, and the implementation follows the specification.
+
+You're always given a snapshot of the current state of the codebase as a JSON. It lists the changed function and the functions closely related to it
+through calls in full under 'functions'. All other functions are only listed by identifier (and signature) under 'otherFunctions'; you can call them,
+but not change them. 'omittedFunctionCount', if present, counts further functions that didn't fit into the snapshot.
+The codebase snapshot will already contain the latest change made by the user. You'll be told what was just changed and what aspects you're expected to generate.
+Each aspect comes with a state: 'edited' means it has been written by a human, 'autogen' means it was LLM-generated, 'locked' means the human has marked this as final and not to be changed for now.
+
+Be conservative in generating: as much as possible try to keep what's already there. If the specification has changed significantly, then of course the implementation must change, too.
+But minor modifications shouldn't cause all a complete refactoring of the system.
+If the existing aspect fits your new inputs, don't change it. If you need a function call, and there is one that fits okay, then call it instead of generating a new one.
+If an existing function sounds like what you need, then use it, even if the parameter or signature isn't precisely what you had in mind.
+But when the function you're generating requires another helper function, which doesn't exist yet, feel free to generate a function call to a new function.
+In that case, also create the helper with create_method, filling in all four aspects (keep them short, following the guidelines below). Its identifier must match the name in the call exactly.
+Update the calling implementation before creating the helper. Don't create functions nobody calls, and don't create a function that already exists.
+If your change means an existing helper is no longer called by any function, you may remove it with delete_method. Only delete helpers that became obsolete through your change,
+never the function you were asked to generate, and never a function with a locked aspect. The user will be asked to confirm each deletion.
+
+Keep it short, whenever possible. This means generating quite short (and potentially vague) specification and implementation if you have little information (low specificity) and you're just guessing, or if it's a simple task. Guess when necessary, but don't go on longer tangents if the system
+context doesn't actually provide you with data to guess. However, if you know very precisely what's required, you may generate longer texts.
+General guideline: one sentence if you all you have is a function name, two sentences if you also have some system context what the function is needed for. Three sentences if you already know the purpose of the function. Four to five sentences if it's really clear what precisely the function will do.
+
+In the specification, avoid talking about the signature. You may mention parameters and return type if it's useful to understand the purpose of the function, but you don't have to mention any parameters.
+
+Be very lenient about data types and parameters, that's not the focus of this system.
+
+Besides the aspects, each function has a 'code' field: its real source code in the project's target language (the snapshot's 'language').
+You only write code when you're explicitly asked to, with update_method_code. The code is a faithful translation of the four aspects:
+the identifier is the function name, the signature gives the parameters and return type, the specification becomes the docstring or doc comment,
+and the implementation describes the body; keep its sentences as comments where they help. Call the other functions of the project by their exact identifiers.
+Calls to functions that aren't part of the project are external; call them as written. Write only the function itself: no imports, no other functions, no markdown.
+
+Apply your changes by calling the provided tools, one call per change. Use update_aspect to set an aspect of a function, create_method to add
+a helper function and delete_method to remove one. Refer to existing functions by their current identifier. Before the tool calls, explain your reasoning in a few short sentences of Markdown (this is your rationale, shown to the user next to your changes):
+why you changed what you changed, e.g. why you split off a helper function.
+If nothing needs to change, don't call any tool and just explain why.
+{{glossary}}`;
+
+export const DEFAULT_USER_PROMPT_TEMPLATE = `Here is the current state of the codebase:
+{{snapshot}}
+
+{{change}}
+
+Generate the following aspects of the function '{{function}}': {{aspectsToGenerate}}
+{{codeRequest}}`;
+
+/** Replaces each `{{name}}` with its value. Unknown names are left as they are. */
+export const renderPromptTemplate = (template: string, variables: Record<string, string>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+
+// Heading and terms, or nothing
+const formatGlossary = (glossary: string | undefined) =>
+  glossary?.trim() ? `Glossary of this project's terms. Use them consistently, with these meanings:\n${glossary.trim()}` : '';
+
+function describeChange(trigger: CodegenTrigger): string {
+  const functionName = trigger.modifiedFunction.identifier.descriptor;
+  if (trigger.brief) {
+    return [
+      'The user is starting this project from the following description of the system:',
+      trigger.brief.trim(),
+      '',
+      `Draft the whole system as functions. '${functionName}' is its entry point and still empty: fill in its aspects, and create every function it calls,`,
+      'directly or indirectly, with create_method, so that the functions form a call tree. Give each function one clear purpose;',
+      'a handful to a few dozen functions is right for most systems. Keep the aspects short, this is a first draft.',
+    ].join('\n');
+  }
+  if (trigger.calleeChanges?.length) {
+    return [
+      `Functions called by '${functionName}' have changed:`,
+      ...describeCalleeChanges(trigger.calleeChanges).map((line) => `- ${line}`),
+      '',
+      `Review the implementation of '${functionName}' and update it so that it uses these functions correctly (arguments, return values, behaviour).`,
+      "Keep everything that doesn't depend on the changes as it is; if the implementation still fits, don't change it.",
+    ].join('\n');
+  }
+  return [
+    `You have been given a new aspect '${trigger.modifiedAspect}' of the function '${functionName}'. The new value is:`,
+    trigger.modifiedFunction[trigger.modifiedAspect].descriptor,
+    '',
+    `Generate appropriate values for the aspects below, taking into account the updated ${trigger.modifiedAspect} and the current state of the function.`,
+  ].join('\n');
+}
+
+/** Values of `PROMPT_VARIABLES` for one request. */
+export function buildPromptVariables(snapshot: PackagedCodebase, trigger: CodegenTrigger): Record<string, string> {
+  const functionName = trigger.modifiedFunction.identifier.descriptor;
+  const language = TARGET_LANGUAGES[snapshot.language].label;
+  return {
+    project: snapshot.project,
+    language,
+    function: functionName,
+    aspectsToGenerate: trigger.aspectsToGenerate.length > 0
+      ? trigger.aspectsToGenerate.join(', ')
+      : 'none (all subsequent aspects are locked or already complete)',
+    glossary: formatGlossary(trigger.prompts?.glossary),
+    change: describeChange(trigger),
+    codeRequest: trigger.generateCode
+      ? `Then write the source code of '${functionName}' in ${language}, based on its aspects after your changes, and set it with update_method_code.`
+      : '',
+    snapshot: JSON.stringify(snapshot),
+  };
+}
+
+/** The project's template for `kind`, or the default if it has none. */
+export const getPromptTemplate = (prompts: PromptSettings | undefined, kind: 'system' | 'user'): string =>
+  (kind === 'system' ? prompts?.systemTemplate : prompts?.userTemplate) ??
+  (kind === 'system' ? DEFAULT_SYSTEM_PROMPT_TEMPLATE : DEFAULT_USER_PROMPT_TEMPLATE);
+
+// Blank lines left by empty variables at either end are dropped
+const renderPrompt = (snapshot: PackagedCodebase, trigger: CodegenTrigger, kind: 'system' | 'user') =>
+  renderPromptTemplate(getPromptTemplate(trigger.prompts, kind), buildPromptVariables(snapshot, trigger)).trim();
+
+/**
+ * Builds the system prompt: the rules for the model and the project's conventions.
+ */
+export function buildSystemPrompt(snapshot: PackagedCodebase, trigger: CodegenTrigger): string {
+  return renderPrompt(snapshot, trigger, 'system');
+}
+
+/**
+ * Builds the user prompt describing the change that triggered code generation.
+ */
+export function buildCodegenPrompt(snapshot: PackagedCodebase, trigger: CodegenTrigger): string {
+  return renderPrompt(snapshot, trigger, 'user');
+}
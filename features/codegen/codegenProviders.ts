@@ -0,0 +1,75 @@
+import { CodeGenCommand } from './codegenCommands';
+import type { CodegenTrigger } from './codegenBackend';
+import type { PackagedCodebase } from './codegenPackaging';
+import type { CodegenProgressEvent } from './codegenStream';
+import { createAnthropicProvider } from './codegenCloudLlm';
+import { createOpenAiCompatibleProvider } from './codegenOpenAiLlm';
+import { createMockProvider } from './codegenMockLlm';
+import { CodegenError } from './codegenErrors';
+
+// ---------------------------------------------------------------------------
+// LLM provider layer behind `callLLMCodeSynthesis`. Server only.
+//
+// Configuration (environment variables):
+//   CODEGEN_PROVIDER  'anthropic' | 'openai' | 'mock'
+//                     (default: 'anthropic' if ANTHROPIC_API_KEY is set, otherwise 'mock')
+//   CODEGEN_MODEL     Model name; overrides the provider's default
+//   OPENAI_BASE_URL   Endpoint of the OpenAI-compatible server (default: https://api.openai.com/v1)
+//   OPENAI_API_KEY    Optional bearer token for that server
+// ---------------------------------------------------------------------------
+
+export type CodegenProviderName = 'anthropic' | 'openai' | 'mock';
+
+/**
+ * Commands produced by a provider. `warnings` explains anything that was
+ * dropped (invalid tool calls, truncated output, no changes at all);
+ * `rationale` is the model's explanation of its changes (Markdown, may be empty);
+ * `usage` is the token count reported by the API (zero if it reports none).
+ */
+export interface CodegenProviderOutput {
+  commands: CodeGenCommand[];
+  warnings: string[];
+  rationale: string;
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+/**
+ * A source of code-generation commands. When `onProgress` is given, the
+ * provider reports each command as soon as it is complete (in addition to
+ * returning it), the partial text of aspects while they are generated, and the
+ * rationale once it is complete. `signal` aborts the LLM request.
+ */
+export interface CodegenProvider {
+  name: CodegenProviderName;
+  /** Model name, recorded in the aspects' revision history. */
+  model: string;
+  generate: (
+    snapshot: PackagedCodebase,
+    trigger: CodegenTrigger,
+    onProgress?: (event: CodegenProgressEvent) => void,
+    signal?: AbortSignal
+  ) => Promise<CodegenProviderOutput>;
+}
+
+const PROVIDER_NAMES: CodegenProviderName[] = ['anthropic', 'openai', 'mock'];
+
+/**
+ * Returns the provider selected by the environment. Throws on an unknown
+ * `CODEGEN_PROVIDER` so a typo doesn't silently fall back to another provider.
+ */
+export function getCodegenProvider(): CodegenProvider {
+  const configured = process.env.CODEGEN_PROVIDER?.trim().toLowerCase();
+  const name = configured || (process.env.ANTHROPIC_API_KEY ? 'anthropic' : 'mock');
+  const model = process.env.CODEGEN_MODEL?.trim() || undefined;
+
+  switch (name) {
+    case 'anthropic':
+      return createAnthropicProvider(model);
+    case 'openai':
+      return createOpenAiCompatibleProvider(model);
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new CodegenError('configuration', `Unknown CODEGEN_PROVIDER '${configured}' (expected one of ${PROVIDER_NAMES.join(', ')})`);
+  }
+}
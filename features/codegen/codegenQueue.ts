@@ -0,0 +1,170 @@
+import { useCodebaseStore } from '@/store/useCodebaseStore';
+import type { CodeAspectType, CodegenJob } from '@/store/codebase.types';
+import type { CodegenResult } from './codegenBackend';
+import { streamCodegenForFunction, type StreamCodegenOptions } from './codegenFrontend';
+import { formatUsd, isBudgetExhausted } from './codegenUsage';
+
+// ---------------------------------------------------------------------------
+// Project-wide queue for code generation. Every request from a function node
+// becomes a `CodegenJob` in the store. Jobs for the same function run one after
+// the other, and at most MAX_RUNNING_JOBS run at once. Each job packages the
+// codebase when it starts (not when it is queued), so it sees the edits made
+// while it was waiting. Removing a job from the store cancels it. Completed
+// calls are recorded in the project's usage records, and no job starts once
+// the project's budget is used up.
+// ---------------------------------------------------------------------------
+
+const MAX_RUNNING_JOBS = 2;
+
+/** Rejection of a job that was cancelled (by the user or by loading another project). */
+export class CodegenCancelledError extends Error {
+  constructor(functionName: string) {
+    super(`Code generation for '${functionName}' was cancelled`);
+    this.name = 'CodegenCancelledError';
+  }
+}
+
+/** Rejection of a job because the project's codegen budget is used up. */
+export class CodegenBudgetExceededError extends Error {
+  constructor(budget: number) {
+    super(`The codegen budget of this project (${formatUsd(budget)}) is used up; raise it in the Usage panel to continue.`);
+    this.name = 'CodegenBudgetExceededError';
+  }
+}
+
+// Rejects if the project's budget is used up (checked when a job is queued and again when it starts)
+const checkBudget = () => {
+  const { usageRecords, usageBudget } = useCodebaseStore.getState();
+  if (usageBudget !== null && isBudgetExhausted(usageRecords, usageBudget)) throw new CodegenBudgetExceededError(usageBudget);
+};
+
+// Non-serialisable parts of the pending jobs, by job ID
+interface JobHandle {
+  job: CodegenJob;
+  controller: AbortController;
+  onPartial?: StreamCodegenOptions['onPartial'];
+  resolve: (result: CodegenResult) => void;
+  reject: (error: unknown) => void;
+}
+const handles = new Map<string, JobHandle>();
+
+// Settles a job and takes it out of the store (the handle goes first, so this isn't seen as a cancellation)
+const finishJob = (id: string, settle: (handle: JobHandle) => void) => {
+  const handle = handles.get(id);
+  if (!handle) return; // Already cancelled
+  handles.delete(id);
+  useCodebaseStore.getState().removeCodegenJob(id);
+  settle(handle);
+};
+
+async function runJob(handle: JobHandle) {
+  const { job, controller } = handle;
+  const store = useCodebaseStore.getState();
+  store.updateCodegenJob(job.id, { status: 'running' });
+
+  try {
+    checkBudget();
+    const functionIndex = store.codeFunctions.findIndex((f) => f.id === job.functionId);
+    if (functionIndex === -1) throw new Error(`The function '${job.functionName}' no longer exists`);
+    const result = await streamCodegenForFunction(functionIndex, job.field, {
+      generateCode: job.generateCode,
+      calleeChanges: job.calleeChanges,
+      reroll: job.reroll,
+      brief: job.brief,
+      signal: controller.signal,
+      onStart: (model) => useCodebaseStore.getState().updateCodegenJob(job.id, { model }),
+      onPartial: handle.onPartial,
+    });
+    if (result.usage) {
+      useCodebaseStore.getState().addUsageRecord({
+        ...result.usage,
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        model: result.model,
+        functionId: job.functionId,
+        functionName: job.functionName,
+        triggerAspect: job.field,
+      });
+    }
+    finishJob(job.id, ({ resolve }) => resolve(result));
+  } catch (error) {
+    finishJob(job.id, ({ reject }) => reject(error));
+  } finally {
+    startQueuedJobs();
+  }
+}
+
+// Starts the oldest queued jobs that have a free slot and no running job for their function
+function startQueuedJobs() {
+  const jobs = useCodebaseStore.getState().codegenJobs;
+  const busyFunctions = new Set(jobs.filter((job) => job.status === 'running').map((job) => job.functionId));
+  let running = busyFunctions.size;
+
+  for (const job of jobs) {
+    if (running >= MAX_RUNNING_JOBS) break;
+    const handle = handles.get(job.id);
+    if (job.status !== 'queued' || !handle || busyFunctions.has(job.functionId)) continue;
+    busyFunctions.add(job.functionId);
+    running++;
+    void runJob(handle);
+  }
+}
+
+// Jobs removed from the store by anything but `finishJob` (cancel button, project load) are cancelled
+useCodebaseStore.subscribe((state, previous) => {
+  if (state.codegenJobs === previous.codegenJobs) return;
+  const pending = new Set(state.codegenJobs.map((job) => job.id));
+  const cancelled = [...handles.values()].filter((handle) => !pending.has(handle.job.id));
+  cancelled.forEach((handle) => {
+    handles.delete(handle.job.id);
+    handle.controller.abort();
+    handle.reject(new CodegenCancelledError(handle.job.functionName));
+  });
+  if (cancelled.length > 0) startQueuedJobs();
+});
+
+/**
+ * Queues code generation for a function, triggered by an edit (or reroll) of
+ * `field`. Resolves with the result once the job has run; its commands have
+ * been applied to the store by then. Rejects with `CodegenCancelledError` if
+ * the job is cancelled and with `CodegenBudgetExceededError` if the project's
+ * budget is used up.
+ */
+export function enqueueCodegen(
+  functionId: string,
+  field: CodeAspectType,
+  aspectsToGenerate: CodeAspectType[],
+  { generateCode = false, calleeChanges, reroll, brief, onPartial }: Pick<StreamCodegenOptions, 'generateCode' | 'calleeChanges' | 'reroll' | 'brief' | 'onPartial'> = {}
+): Promise<CodegenResult> {
+  const func = useCodebaseStore.getState().codeFunctions.find((f) => f.id === functionId);
+  if (!func) return Promise.reject(new Error('Function not found'));
+  try {
+    checkBudget();
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  const job: CodegenJob = {
+    id: crypto.randomUUID(),
+    functionId,
+    functionName: func.identifier.descriptor,
+    field,
+    aspectsToGenerate,
+    generateCode,
+    ...(calleeChanges?.length ? { calleeChanges } : {}),
+    ...(reroll ? { reroll } : {}),
+    ...(brief ? { brief } : {}),
+    status: 'queued',
+    created: new Date().toISOString(),
+  };
+  return new Promise<CodegenResult>((resolve, reject) => {
+    handles.set(job.id, { job, controller: new AbortController(), onPartial, resolve, reject });
+    useCodebaseStore.getState().addCodegenJob(job);
+    startQueuedJobs();
+  });
+}
+
+/** Cancels a queued or running job. Commands it has already applied stay (and can be undone). */
+export function cancelCodegenJob(id: string) {
+  useCodebaseStore.getState().removeCodegenJob(id);
+}
@@ -0,0 +1,61 @@
+import { CodeAspectType, type CalleeChange, type CodeFunction } from '@/store/codebase.types';
+
+// ---------------------------------------------------------------------------
+// Ripple mode: when a function's signature or specification changes, the
+// functions that call it may no longer fit. Their implementations are marked
+// for review with the `CalleeChange`s, and can be regenerated with those
+// changes as context (see `CodegenTrigger.calleeChanges`).
+// ---------------------------------------------------------------------------
+
+// Aspects of a callee whose changes ripple to its callers
+export const RIPPLE_ASPECTS: CodeAspectType[] = [CodeAspectType.SIGNATURE, CodeAspectType.SPECIFICATION];
+
+// "formatText(text, width)" -> "formatText"
+const functionName = (func: CodeFunction) => func.identifier.descriptor.split('(')[0].trim();
+
+/** Functions other than the callee itself whose implementation calls `calleeName`. */
+export const findCallers = (calleeName: string, codeFunctions: CodeFunction[]): CodeFunction[] => {
+  if (!calleeName) return [];
+  const callPattern = new RegExp(`\\b${calleeName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\(`);
+  return codeFunctions.filter((func) => functionName(func) !== calleeName && callPattern.test(func.implementation.descriptor));
+};
+
+/**
+ * Adds `change` to a caller's pending changes. Repeated changes to the same
+ * aspect of a callee are merged, keeping the original `from`; a change that
+ * has been reverted disappears.
+ */
+export const mergeCalleeChange = (changes: CalleeChange[], change: CalleeChange): CalleeChange[] => {
+  const existing = changes.find((c) => c.callee === change.callee && c.aspect === change.aspect);
+  const others = changes.filter((c) => c !== existing);
+  const from = existing?.from ?? change.from;
+  return from === change.to ? others : [...others, { ...change, from }];
+};
+
+/**
+ * Pending changes of every caller affected by updating `before` to `after`, by
+ * caller id. Empty if neither the signature nor the specification changed.
+ */
+export const rippleCalleeChanges = (
+  codeFunctions: CodeFunction[],
+  before: CodeFunction,
+  after: CodeFunction
+): Map<string, CalleeChange[]> => {
+  const updates = new Map<string, CalleeChange[]>();
+  const changedAspects = RIPPLE_ASPECTS.filter((aspect) => before[aspect].descriptor !== after[aspect].descriptor);
+  if (changedAspects.length === 0) return updates;
+
+  const callee = functionName(before); // Callers still call the function by its previous name
+  findCallers(callee, codeFunctions).forEach((caller) => {
+    const changes = changedAspects.reduce(
+      (pending, aspect) => mergeCalleeChange(pending, { callee, aspect, from: before[aspect].descriptor, to: after[aspect].descriptor }),
+      caller.calleeChanges
+    );
+    updates.set(caller.id, changes);
+  });
+  return updates;
+};
+
+/** One line per change, e.g. "formatText: signature changed from 'formatText(s)' to 'formatText(s, width)'". */
+export const describeCalleeChanges = (changes: CalleeChange[]): string[] =>
+  changes.map((change) => `${change.callee}: ${change.aspect} changed from '${change.from}' to '${change.to}'`);
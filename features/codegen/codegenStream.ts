@@ -0,0 +1,77 @@
+import { CodeAspectType, type CodegenUsage } from '@/store/codebase.types';
+import { CodeGenCommand } from './codegenCommands';
+import type { CodegenErrorKind } from './codegenErrors';
+
+// ---------------------------------------------------------------------------
+// Streaming transport for code generation. The route handler at
+// `app/api/codegen/stream` sends these events as server-sent events; the same
+// SSE reader is used by the client and by the OpenAI-compatible provider.
+// ---------------------------------------------------------------------------
+
+/**
+ * Progress reported by a provider while the response is still being generated.
+ * `rationale` carries the model's explanation once it is complete (before the
+ * first command); `partial` carries the text of an aspect produced so far;
+ * `command` is sent as soon as a command is complete and valid.
+ */
+export type CodegenProgressEvent =
+  | { type: 'rationale'; text: string }
+  | { type: 'partial'; methodName: string; aspect: CodeAspectType; text: string }
+  | { type: 'command'; command: CodeGenCommand };
+
+/** Events of the codegen stream, in order: `start`, any progress events, then `done` or `error`. */
+export type CodegenStreamEvent =
+  | { type: 'start'; model: string }
+  | CodegenProgressEvent
+  | { type: 'done'; warnings: string[]; rationale: string; usage?: CodegenUsage }
+  | { type: 'error'; message: string; kind: CodegenErrorKind; retryable: boolean };
+
+export const encodeSseEvent = (event: CodegenStreamEvent): string =>
+  `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/** One server-sent event; `event` is 'message' when the sender didn't name it. */
+export interface SseMessage {
+  event: string;
+  data: string;
+}
+
+/**
+ * Reads server-sent events from a response body, yielding each event once its
+ * terminating blank line has arrived.
+ */
+export async function* readSseMessages(body: ReadableStream<Uint8Array>): AsyncGenerator<SseMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) yield { event, data: data.join('\n') };
+          event = 'message';
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+        // Comments (":") and other fields are ignored
+      }
+
+      if (done) {
+        if (data.length > 0) yield { event, data: data.join('\n') };
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
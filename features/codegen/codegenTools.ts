@@ -0,0 +1,248 @@
+import { AspectState, CodeAspectType } from '@/store/codebase.types';
+import { CodeGenCommand, CommandType } from './codegenCommands';
+
+// ---------------------------------------------------------------------------
+// Tool definitions for structured code generation: one tool per CommandType.
+// The tools' input schemas are sent to the model and are also the schemas the
+// returned tool calls are validated against.
+// ---------------------------------------------------------------------------
+
+/**
+ * The subset of JSON Schema used by the codegen tools.
+ */
+export type ToolInputSchema =
+  | { type: 'string'; description?: string; enum?: string[]; minLength?: number }
+  | {
+      type: 'object';
+      description?: string;
+      properties: Record<string, ToolInputSchema>;
+      required?: string[];
+      additionalProperties?: boolean;
+    };
+
+export interface CodegenTool {
+  name: CommandType;
+  description: string;
+  input_schema: ToolInputSchema & { type: 'object' };
+}
+
+const METHOD_NAME_SCHEMA: ToolInputSchema = {
+  type: 'string',
+  description: "The current identifier of the function, exactly as it appears in the codebase snapshot",
+  minLength: 1,
+};
+
+export const CODEGEN_TOOLS: CodegenTool[] = [
+  {
+    name: CommandType.UPDATE_ASPECT,
+    description: 'Set one aspect (identifier, signature, specification or implementation) of an existing function.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        methodName: METHOD_NAME_SCHEMA,
+        aspect: { type: 'string', enum: Object.values(CodeAspectType) },
+        value: { type: 'string', description: 'The complete new value of the aspect' },
+      },
+      required: ['methodName', 'aspect', 'value'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: CommandType.CREATE_METHOD,
+    description: 'Create a new helper function that an implementation calls but that does not exist yet. All four aspects are required.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        identifier: { type: 'string', description: 'Name of the new function, as it is called', minLength: 1 },
+        signature: { type: 'string', minLength: 1 },
+        specification: { type: 'string', minLength: 1 },
+        implementation: { type: 'string', minLength: 1 },
+      },
+      required: ['identifier', 'signature', 'specification', 'implementation'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: CommandType.DELETE_METHOD,
+    description: 'Delete an obsolete helper function that is no longer called by any function. The user is asked to confirm.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        methodName: METHOD_NAME_SCHEMA,
+      },
+      required: ['methodName'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: CommandType.UPDATE_METHOD_CODE,
+    description: "Set the source code of an existing function, written in the project's target language.",
+    input_schema: {
+      type: 'object',
+      properties: {
+        methodName: METHOD_NAME_SCHEMA,
+        value: { type: 'string', description: 'The complete source code of the function, without markdown fences' },
+      },
+      required: ['methodName', 'value'],
+      additionalProperties: false,
+    },
+  },
+];
+
+/**
+ * Validates a value against a tool input schema. Returns one "path: message"
+ * entry per problem (empty if the value is valid).
+ */
+export function validateToolInput(schema: ToolInputSchema, value: unknown, path = 'input'): string[] {
+  if (schema.type === 'string') {
+    if (typeof value !== 'string') return [`${path}: expected a string, got ${value === null ? 'null' : typeof value}`];
+    if (schema.enum && !schema.enum.includes(value)) return [`${path}: '${value}' is not one of ${schema.enum.join(', ')}`];
+    if (schema.minLength !== undefined && value.length < schema.minLength) return [`${path}: must not be empty`];
+    return [];
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${path}: expected an object`];
+  }
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+  (schema.required ?? []).forEach((key) => {
+    if (record[key] === undefined) errors.push(`${path}.${key}: is required`);
+  });
+  Object.entries(record).forEach(([key, propertyValue]) => {
+    const propertySchema = schema.properties[key];
+    if (propertySchema) {
+      errors.push(...validateToolInput(propertySchema, propertyValue, `${path}.${key}`));
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${path}.${key}: unknown property`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Converts a tool call from the model into a CodeGenCommand, validating its
+ * input against the tool's schema. Returns the problems instead if it is invalid.
+ */
+export function toolCallToCommand(
+  toolName: string,
+  input: unknown,
+  className: string
+): { command: CodeGenCommand } | { errors: string[] } {
+  const tool = CODEGEN_TOOLS.find((t) => t.name === toolName);
+  if (!tool) {
+    return { errors: [`unknown tool '${toolName}'`] };
+  }
+
+  const errors = validateToolInput(tool.input_schema, input);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const args = input as Record<string, string>;
+  switch (tool.name) {
+    case CommandType.UPDATE_ASPECT:
+      return { command: { type: tool.name, className, methodName: args.methodName, aspect: args.aspect as CodeAspectType, value: args.value } };
+    case CommandType.CREATE_METHOD:
+      return {
+        command: {
+          type: tool.name,
+          className,
+          method: {
+            // The caller already calls it by this name; EDITED also keeps the new node from generating its aspects again
+            identifier: { descriptor: args.identifier, state: AspectState.EDITED },
+            signature: { descriptor: args.signature, state: AspectState.AUTOGEN },
+            specification: { descriptor: args.specification, state: AspectState.AUTOGEN },
+            implementation: { descriptor: args.implementation, state: AspectState.AUTOGEN },
+            code: '',
+          },
+        },
+      };
+    case CommandType.DELETE_METHOD:
+      return { command: { type: tool.name, className, methodName: args.methodName } };
+    case CommandType.UPDATE_METHOD_CODE:
+      return { command: { type: tool.name, className, methodName: args.methodName, value: args.value } };
+  }
+}
+
+/** A tool call as returned by any provider. */
+export interface ToolCall {
+  name: string;
+  input: unknown;
+}
+
+/**
+ * Converts all tool calls of a response, keeping the valid ones. Every rejected
+ * call is described in `warnings` so the user sees why a change was dropped.
+ */
+export function commandsFromToolCalls(
+  calls: ToolCall[],
+  className: string
+): { commands: CodeGenCommand[]; warnings: string[] } {
+  const commands: CodeGenCommand[] = [];
+  const warnings: string[] = [];
+  calls.forEach((call) => {
+    const result = toolCallToCommand(call.name, call.input, className);
+    if ('command' in result) {
+      commands.push(result.command);
+    } else {
+      console.warn('[WARN] Rejected tool call:', call, result.errors);
+      warnings.push(`Ignored an invalid ${call.name} call (${result.errors.join('; ')})`);
+    }
+  });
+  return { commands, warnings };
+}
+
+/**
+ * Best-effort parse of a tool input that is still being streamed: closes an
+ * open string and any open objects or arrays. Returns undefined while the text
+ * ends in a position that can't be completed (e.g. inside a key or a number).
+ */
+export function parsePartialJson(text: string): unknown {
+  let inString = false;
+  let escaped = false;
+  const closers: string[] = [];
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      closers.push('}');
+    } else if (ch === '[') {
+      closers.push(']');
+    } else if (ch === '}' || ch === ']') {
+      closers.pop();
+    }
+  }
+
+  let completed = text;
+  if (inString) completed = `${escaped ? completed.slice(0, -1) : completed}"`;
+  // Drop a key that has no value yet, then a trailing separator
+  completed = completed.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:\s*$/, '').replace(/,\s*$/, '');
+  try {
+    return JSON.parse(completed + closers.reverse().join(''));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The aspect text produced so far by a streaming update_aspect call, or
+ * undefined if the call doesn't name its function and aspect yet.
+ */
+export function partialAspectUpdate(
+  toolName: string,
+  partialInput: string
+): { methodName: string; aspect: CodeAspectType; text: string } | undefined {
+  if (toolName !== CommandType.UPDATE_ASPECT) return undefined;
+  const input = parsePartialJson(partialInput) as Record<string, unknown> | undefined;
+  if (!input || typeof input !== 'object') return undefined;
+
+  const { methodName, aspect, value } = input;
+  if (typeof methodName !== 'string' || typeof value !== 'string') return undefined;
+  if (!Object.values(CodeAspectType).includes(aspect as CodeAspectType)) return undefined;
+  return { methodName, aspect: aspect as CodeAspectType, text: value };
+}
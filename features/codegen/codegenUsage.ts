@@ -0,0 +1,100 @@
+import type { CodegenUsage, CodegenUsageRecord } from '@/store/codebase.types';
+
+// ---------------------------------------------------------------------------
+// Token usage and cost of codegen calls. The backend prices each call
+// (`priceCodegenUsage`, server only); the client records it per project and
+// sums it up for the usage panel and the budget check.
+//
+// Configuration (environment variables):
+//   CODEGEN_PRICE_INPUT   USD per million input tokens; overrides the price list
+//   CODEGEN_PRICE_OUTPUT  USD per million output tokens; overrides the price list
+// ---------------------------------------------------------------------------
+
+/** Price of a model in USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices of the models this app is usually run with. Dated versions
+// ("claude-sonnet-4-5-20250929") use the price of their base name.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-4-sonnet': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'offline-mock': { input: 0, output: 0 }, // MOCK_LLM_MODEL of the offline mock provider
+};
+
+const readPrice = (value: string | undefined) => {
+  const parsed = Number.parseFloat(value ?? '');
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+/** Price of `model`: the configured override, else the longest matching entry of `MODEL_PRICES`. */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const input = readPrice(process.env.CODEGEN_PRICE_INPUT);
+  const output = readPrice(process.env.CODEGEN_PRICE_OUTPUT);
+  if (input !== undefined && output !== undefined) return { input, output };
+
+  const name = Object.keys(MODEL_PRICES)
+    .filter((key) => model === key || model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return name !== undefined ? MODEL_PRICES[name] : undefined;
+}
+
+/** Adds the cost to a call's usage, if the model has a known price. Server only. */
+export function priceCodegenUsage(model: string, usage: Omit<CodegenUsage, 'costUsd'>): CodegenUsage {
+  const price = getModelPrice(model);
+  if (!price) return usage;
+  return { ...usage, costUsd: (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000 };
+}
+
+/** Totals over a list of usage records. */
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number; // Of the calls with a known price
+  unpricedCalls: number;
+  latencyMs: number; // Sum; divide by `calls` for the average
+}
+
+export const summarizeUsage = (records: CodegenUsageRecord[]): UsageSummary =>
+  records.reduce<UsageSummary>(
+    (sum, record) => ({
+      calls: sum.calls + 1,
+      inputTokens: sum.inputTokens + record.inputTokens,
+      outputTokens: sum.outputTokens + record.outputTokens,
+      costUsd: sum.costUsd + (record.costUsd ?? 0),
+      unpricedCalls: sum.unpricedCalls + (record.costUsd === undefined ? 1 : 0),
+      latencyMs: sum.latencyMs + record.latencyMs,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedCalls: 0, latencyMs: 0 }
+  );
+
+/** Totals per function (by id, named after its latest record), most expensive first. */
+export const summarizeUsageByFunction = (
+  records: CodegenUsageRecord[]
+): Array<UsageSummary & { functionId: string; functionName: string }> => {
+  const byFunction = new Map<string, CodegenUsageRecord[]>();
+  records.forEach((record) => byFunction.set(record.functionId, [...(byFunction.get(record.functionId) ?? []), record]));
+  return [...byFunction.entries()]
+    .map(([functionId, functionRecords]) => ({
+      functionId,
+      functionName: functionRecords[functionRecords.length - 1].functionName,
+      ...summarizeUsage(functionRecords),
+    }))
+    .sort((a, b) => b.costUsd - a.costUsd || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens));
+};
+
+/** True once the recorded cost has reached the budget (never without a budget). */
+export const isBudgetExhausted = (records: CodegenUsageRecord[], budget: number | null): boolean =>
+  budget !== null && summarizeUsage(records).costUsd >= budget;
+
+// "$0.0123" for small amounts, "$1.23" otherwise
+export const formatUsd = (amount: number): string => `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`;
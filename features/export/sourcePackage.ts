@@ -0,0 +1,236 @@
+import { CodeAspectType, type CodebaseState, type CodeFunction, type TargetLanguage } from '@/store/codebase.types';
+import { TARGET_LANGUAGES, hasReturnValue, parseParameters, renderFunctionStub, toFunctionName } from '@/features/codegen/codegenLanguages';
+import { slugifyProjectName } from '@/utils/projectNames';
+import type { ZipEntry } from '@/utils/zipArchive';
+
+// ---------------------------------------------------------------------------
+// Turns the project into the files of a runnable source package in its target
+// language: one module with all functions, an entry point and a README.
+// Functions without generated `code` are exported as stubs built from their
+// aspects that raise a "not implemented" error when called.
+// ---------------------------------------------------------------------------
+
+export type SourcePackageInput = Pick<CodebaseState, 'projectName' | 'codeFunctions' | 'targetLanguage'>;
+
+interface ExportedFunction {
+  name: string;
+  parameters: string[];
+  returnsValue: boolean;
+  signature: string;
+  specification: string;
+  source: string;
+  hasCode: boolean;
+}
+
+const toExportedFunction = (func: CodeFunction, language: TargetLanguage): ExportedFunction => {
+  const aspects = Object.fromEntries(
+    Object.values(CodeAspectType).map((aspect) => [aspect, func[aspect].descriptor])
+  ) as Record<CodeAspectType, string>;
+  const code = func.code.trim();
+  return {
+    name: toFunctionName(aspects.identifier || 'unnamed'),
+    parameters: parseParameters(aspects.signature),
+    returnsValue: hasReturnValue(aspects.signature),
+    signature: aspects.signature,
+    specification: aspects.specification,
+    source: code || renderFunctionStub(aspects, language),
+    hasCode: code !== '',
+  };
+};
+
+/**
+ * Entry functions of the call graph: the ones that no other function calls
+ * (all functions if every function is called by another one).
+ */
+const findEntryFunctions = (codeFunctions: CodeFunction[]): CodeFunction[] => {
+  const isCalled = (func: CodeFunction) => {
+    const name = toFunctionName(func.identifier.descriptor);
+    const callPattern = new RegExp(`\\b${name}\\(`);
+    return codeFunctions.some((caller) => caller !== func && callPattern.test(caller.implementation.descriptor));
+  };
+  const entries = codeFunctions.filter((func) => !isCalled(func));
+  return entries.length > 0 ? entries : codeFunctions;
+};
+
+// The generated TypeScript module exports all functions at once, so drop `export` from the code
+const stripTypeScriptExport = (source: string) => source.replace(/^export\s+(?=(async\s+)?function\b)/gm, '');
+
+const renderPython = (moduleName: string, projectName: string, functions: ExportedFunction[], entries: ExportedFunction[]): ZipEntry[] => {
+  const callable = entries.filter((func) => func.parameters.length === 0);
+  const pending = entries.filter((func) => func.parameters.length > 0);
+  return [
+    {
+      path: `${moduleName}.py`,
+      content: [`"""Functions of ${projectName}."""`, ...functions.map((func) => func.source)].join('\n\n\n') + '\n',
+    },
+    {
+      path: 'main.py',
+      content: [
+        `"""Entry point of ${projectName}."""`,
+        '',
+        `import ${moduleName}`,
+        '',
+        '',
+        'def main():',
+        '    # Entry functions: the project functions no other function calls',
+        ...callable.map((func) => `    print(${moduleName}.${func.name}())`),
+        ...pending.map((func) => `    # print(${moduleName}.${func.name}(${func.parameters.join(', ')}))  # fill in the arguments`),
+        ...(callable.length === 0 ? ['    pass'] : []),
+        '',
+        '',
+        'if __name__ == "__main__":',
+        '    main()',
+        '',
+      ].join('\n'),
+    },
+  ];
+};
+
+const renderTypeScript = (moduleName: string, projectName: string, functions: ExportedFunction[], entries: ExportedFunction[]): ZipEntry[] => {
+  const callable = entries.filter((func) => func.parameters.length === 0);
+  const pending = entries.filter((func) => func.parameters.length > 0);
+  return [
+    {
+      path: `src/${moduleName}.ts`,
+      content: [
+        `// Functions of ${projectName}`,
+        ...functions.map((func) => stripTypeScriptExport(func.source)),
+        `export { ${functions.map((func) => func.name).join(', ')} };`,
+      ].join('\n\n') + '\n',
+    },
+    {
+      path: 'src/main.ts',
+      content: [
+        `// Entry point of ${projectName}`,
+        `import * as functions from './${moduleName}';`,
+        '',
+        '// Entry functions: the project functions no other function calls',
+        ...callable.map((func) => `console.log(functions.${func.name}());`),
+        ...pending.map((func) => `// console.log(functions.${func.name}(${func.parameters.join(', ')})); // fill in the arguments`),
+        '',
+      ].join('\n'),
+    },
+    {
+      path: 'package.json',
+      content: JSON.stringify(
+        {
+          name: slugifyProjectName(projectName),
+          version: '0.1.0',
+          private: true,
+          type: 'module',
+          scripts: { start: 'tsx src/main.ts' },
+          devDependencies: { tsx: '^4.0.0', typescript: '^5.0.0' },
+        },
+        null,
+        2
+      ) + '\n',
+    },
+    {
+      path: 'tsconfig.json',
+      content: JSON.stringify(
+        { compilerOptions: { target: 'ES2022', module: 'ESNext', moduleResolution: 'bundler', strict: true, noEmit: true } },
+        null,
+        2
+      ) + '\n',
+    },
+  ];
+};
+
+/**
+ * Go puts all files of the package into one namespace, so a project function
+ * called `main` would clash with the entry point: it gets a free name and the
+ * calls to it in the other functions follow.
+ */
+const renameGoMain = (functions: ExportedFunction[]): ((func: ExportedFunction) => ExportedFunction) => {
+  if (!functions.some((func) => func.name === 'main')) return (func) => func;
+  let renamed = 'projectMain';
+  while (functions.some((func) => func.name === renamed)) renamed += '_';
+  return (func) => ({
+    ...func,
+    name: func.name === 'main' ? renamed : func.name,
+    source: func.source.replace(/(?<![\w.])main(?=\()/g, renamed),
+  });
+};
+
+const renderGo = (moduleName: string, projectName: string, allFunctions: ExportedFunction[], allEntries: ExportedFunction[]): ZipEntry[] => {
+  const rename = renameGoMain(allFunctions);
+  const functions = allFunctions.map(rename);
+  const entries = allEntries.map(rename);
+  const callable = entries.filter((func) => func.parameters.length === 0);
+  const pending = entries.filter((func) => func.parameters.length > 0);
+  // Go can't print the result of a function without one
+  const call = (func: ExportedFunction, args: string) => (func.returnsValue ? `fmt.Println(${func.name}(${args}))` : `${func.name}(${args})`);
+  return [
+    {
+      path: `${moduleName}.go`,
+      content: [`// Functions of ${projectName}`, 'package main', ...functions.map((func) => func.source)].join('\n\n') + '\n',
+    },
+    {
+      path: 'main.go',
+      content: [
+        `// Entry point of ${projectName}`,
+        'package main',
+        '',
+        ...(callable.some((func) => func.returnsValue) ? ['import "fmt"', ''] : []),
+        'func main() {',
+        '\t// Entry functions: the project functions no other function calls',
+        ...callable.map((func) => `\t${call(func, '')}`),
+        ...pending.map((func) => `\t// ${call(func, func.parameters.join(', '))} // fill in the arguments`),
+        '}',
+        '',
+      ].join('\n'),
+    },
+    {
+      path: 'go.mod',
+      content: `module ${slugifyProjectName(projectName)}\n\ngo 1.21\n`,
+    },
+  ];
+};
+
+const RUN_INSTRUCTIONS: Record<TargetLanguage, string> = {
+  python: 'python main.py',
+  typescript: 'npm install\nnpm start',
+  go: 'go run .',
+};
+
+const renderReadme = (projectName: string, language: TargetLanguage, functions: ExportedFunction[]): string => {
+  const stubCount = functions.filter((func) => !func.hasCode).length;
+  return [
+    `# ${projectName}`,
+    '',
+    `${TARGET_LANGUAGES[language].label} source package exported from Code Brainstormer.`,
+    '',
+    '## Running',
+    '',
+    '```sh',
+    RUN_INSTRUCTIONS[language],
+    '```',
+    '',
+    stubCount > 0
+      ? `${stubCount} of ${functions.length} functions have no generated code yet and are stubs that fail with a "not implemented" error.`
+      : `All ${functions.length} functions have generated code.`,
+    '',
+    '## Functions',
+    '',
+    ...functions.map((func) => `- \`${func.signature || func.name}\`${func.hasCode ? '' : ' (stub)'}: ${func.specification || 'Not specified yet.'}`),
+    '',
+  ].join('\n');
+};
+
+/**
+ * Builds the files of the source package for the project's target language.
+ */
+export function buildSourcePackage({ projectName, codeFunctions, targetLanguage }: SourcePackageInput): ZipEntry[] {
+  const functions = codeFunctions.map((func) => toExportedFunction(func, targetLanguage));
+  const entryIds = new Set(findEntryFunctions(codeFunctions).map((func) => func.id));
+  const entries = functions.filter((_, index) => entryIds.has(codeFunctions[index].id));
+  // Python and Go need identifier-style module names
+  const slug = slugifyProjectName(projectName).replace(/-/g, '_').replace(/^(?=\d)/, 'project_');
+  const moduleName = slug === 'main' ? 'main_functions' : slug; // main.* is the entry point
+
+  const render = { python: renderPython, typescript: renderTypeScript, go: renderGo }[targetLanguage];
+  return [
+    { path: 'README.md', content: renderReadme(projectName, targetLanguage, functions) },
+    ...render(moduleName, projectName, functions, entries),
+  ];
+}
@@ -0,0 +1,127 @@
+import { CodeAspectType, CodeFunction } from '@/store/codebase.types';
+
+// ---------------------------------------------------------------------------
+// Comparison of two versions of a project (snapshots or the current canvas).
+// Functions are matched by their stable id first, then by function name, so
+// snapshots of the same project line up even after renames.
+// ---------------------------------------------------------------------------
+
+export interface TextDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface AspectDiff {
+  aspect: CodeAspectType;
+  before: string;
+  after: string;
+  lines: TextDiffLine[];
+}
+
+export interface FunctionDiff {
+  before: CodeFunction;
+  after: CodeFunction;
+  aspects: AspectDiff[]; // Only the aspects whose text changed
+}
+
+export interface ProjectDiff {
+  added: CodeFunction[];
+  removed: CodeFunction[];
+  renamed: FunctionDiff[]; // Matched functions whose name changed
+  changed: FunctionDiff[]; // All matched functions with at least one changed aspect (including renamed ones)
+}
+
+const COMPARED_ASPECTS = [
+  CodeAspectType.IDENTIFIER,
+  CodeAspectType.SIGNATURE,
+  CodeAspectType.SPECIFICATION,
+  CodeAspectType.IMPLEMENTATION,
+];
+
+// Function name without parameters ("formatText(text)" -> "formatText")
+export const functionName = (func: CodeFunction): string => func.identifier.descriptor.split('(')[0].trim();
+
+/**
+ * Line-based diff of two texts (longest common subsequence).
+ */
+export const diffText = (before: string, after: string): TextDiffLine[] => {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: TextDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+};
+
+const diffFunction = (before: CodeFunction, after: CodeFunction): FunctionDiff => ({
+  before,
+  after,
+  aspects: COMPARED_ASPECTS
+    .filter((aspect) => before[aspect].descriptor !== after[aspect].descriptor)
+    .map((aspect) => ({
+      aspect,
+      before: before[aspect].descriptor,
+      after: after[aspect].descriptor,
+      lines: diffText(before[aspect].descriptor, after[aspect].descriptor),
+    })),
+});
+
+/**
+ * Compares two versions of a project's functions.
+ */
+export const diffProjects = (before: CodeFunction[], after: CodeFunction[]): ProjectDiff => {
+  const pairs: Array<[CodeFunction, CodeFunction]> = [];
+  const unmatchedAfter = new Set(after);
+  const unmatchedBefore: CodeFunction[] = [];
+
+  // Match by stable id
+  before.forEach((func) => {
+    const match = after.find((candidate) => candidate.id === func.id);
+    if (match) {
+      pairs.push([func, match]);
+      unmatchedAfter.delete(match);
+    } else {
+      unmatchedBefore.push(func);
+    }
+  });
+
+  // Match the rest by name (e.g. functions that were deleted and re-created)
+  const removed = unmatchedBefore.filter((func) => {
+    const name = functionName(func);
+    const match = name ? [...unmatchedAfter].find((candidate) => functionName(candidate) === name) : undefined;
+    if (!match) return true;
+    pairs.push([func, match]);
+    unmatchedAfter.delete(match);
+    return false;
+  });
+
+  const functionDiffs = pairs.map(([a, b]) => diffFunction(a, b));
+  return {
+    added: after.filter((func) => unmatchedAfter.has(func)),
+    removed,
+    renamed: functionDiffs.filter((diff) => functionName(diff.before) !== functionName(diff.after)),
+    changed: functionDiffs.filter((diff) => diff.aspects.length > 0),
+  };
+};
@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ProjectData, assertValidProjectData } from '@/data/projectSchema';
+import { CURRENT_PROJECT_VERSION, migrateProjectData } from '@/data/projectMigrations';
+import { slugifyProjectName } from '@/utils/projectNames';
+
+// ---------------------------------------------------------------------------
+// Server-side project workspace: one `<projectId>.json` file per project in a
+// directory on disk. Only ever imported from server actions.
+// ---------------------------------------------------------------------------
+
+/** Directory holding the project files. Override with `PROJECT_WORKSPACE_DIR`. */
+export const WORKSPACE_DIR = path.resolve(process.env.PROJECT_WORKSPACE_DIR || 'workspace');
+
+const PROJECT_FILE_EXTENSION = '.json';
+
+// Project ids double as file names, so keep them to a safe, URL-friendly alphabet
+const PROJECT_ID_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Summary of a project file, as shown in the project picker.
+ */
+export interface ProjectSummary {
+  id: string;
+  projectName: string;
+  functionCount: number;
+  modified?: string;
+}
+
+function projectFilePath(id: string): string {
+  if (!PROJECT_ID_REGEX.test(id)) {
+    throw new Error(`Invalid project id: '${id}'`);
+  }
+  return path.join(WORKSPACE_DIR, `${id}${PROJECT_FILE_EXTENSION}`);
+}
+
+async function ensureWorkspaceDir(): Promise<void> {
+  await fs.mkdir(WORKSPACE_DIR, { recursive: true });
+}
+
+async function projectExists(id: string): Promise<boolean> {
+  try {
+    await fs.access(projectFilePath(id));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Find a free id for the given name by appending a counter if needed ("my-project-2")
+async function allocateProjectId(name: string): Promise<string> {
+  const baseId = slugifyProjectName(name);
+  let id = baseId;
+  for (let counter = 2; await projectExists(id); counter++) {
+    id = `${baseId}-${counter}`;
+  }
+  return id;
+}
+
+async function writeProjectFile(id: string, data: ProjectData): Promise<void> {
+  await ensureWorkspaceDir();
+  const filePath = projectFilePath(id);
+  // Write to a temp file first so a crash mid-write never corrupts the project
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Lists all projects in the workspace, most recently modified first.
+ * Files that cannot be parsed are skipped with a warning.
+ */
+export async function listWorkspaceProjects(): Promise<ProjectSummary[]> {
+  await ensureWorkspaceDir();
+  const fileNames = await fs.readdir(WORKSPACE_DIR);
+
+  const summaries: ProjectSummary[] = [];
+  for (const fileName of fileNames) {
+    if (!fileName.endsWith(PROJECT_FILE_EXTENSION)) continue;
+    const id = fileName.slice(0, -PROJECT_FILE_EXTENSION.length);
+    if (!PROJECT_ID_REGEX.test(id)) continue;
+
+    try {
+      const data = await readWorkspaceProject(id);
+      summaries.push({
+        id,
+        projectName: data.projectName,
+        functionCount: data.functions.length,
+        modified: data.modified,
+      });
+    } catch (error) {
+      console.warn(`[WARN] Skipping unreadable project file '${fileName}':`, error);
+    }
+  }
+
+  return summaries.sort((a, b) => (b.modified ?? '').localeCompare(a.modified ?? ''));
+}
+
+/**
+ * Reads a project file as-is, without migrating it. Used to hand the file to
+ * the client, which upgrades it and reports what changed.
+ */
+export async function readWorkspaceProjectFile(id: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(projectFilePath(id), 'utf-8'));
+}
+
+/**
+ * Reads a single project file, upgrades it to the current schema and validates it.
+ */
+export async function readWorkspaceProject(id: string): Promise<ProjectData> {
+  const { data } = migrateProjectData(await readWorkspaceProjectFile(id));
+  assertValidProjectData(data);
+  return data;
+}
+
+/**
+ * Creates a new, empty project and returns its summary.
+ */
+export async function createWorkspaceProject(projectName: string): Promise<ProjectSummary> {
+  const id = await allocateProjectId(projectName);
+  const now = new Date().toISOString();
+  await writeProjectFile(id, {
+    projectName,
+    functions: [],
+    version: CURRENT_PROJECT_VERSION,
+    created: now,
+    modified: now,
+  });
+  return { id, projectName, functionCount: 0, modified: now };
+}
+
+/**
+ * Overwrites an existing project (or creates it under the given id).
+ * The original `created` timestamp is preserved.
+ */
+export async function saveWorkspaceProject(id: string, data: ProjectData): Promise<ProjectSummary> {
+  assertValidProjectData(data);
+
+  let created = data.created;
+  if (await projectExists(id)) {
+    created = (await readWorkspaceProject(id)).created ?? created;
+  }
+
+  const modified = new Date().toISOString();
+  await writeProjectFile(id, { ...data, created, modified });
+  return { id, projectName: data.projectName, functionCount: data.functions.length, modified };
+}
+
+/**
+ * Renames a project. Because the id is derived from the name, the file moves
+ * as well; the new id is returned in the summary.
+ */
+export async function renameWorkspaceProject(id: string, newName: string): Promise<ProjectSummary> {
+  const data = await readWorkspaceProject(id);
+  const newId = slugifyProjectName(newName) === id ? id : await allocateProjectId(newName);
+  const modified = new Date().toISOString();
+
+  await writeProjectFile(newId, { ...data, projectName: newName, modified });
+  if (newId !== id) {
+    await fs.unlink(projectFilePath(id));
+  }
+  return { id: newId, projectName: newName, functionCount: data.functions.length, modified };
+}
+
+/**
+ * Copies a project under a new name ("<name> (copy)" by default).
+ */
+export async function duplicateWorkspaceProject(id: string, newName?: string): Promise<ProjectSummary> {
+  const data = await readWorkspaceProject(id);
+  const projectName = newName || `${data.projectName} (copy)`;
+  const newId = await allocateProjectId(projectName);
+  const now = new Date().toISOString();
+
+  await writeProjectFile(newId, { ...data, projectName, created: now, modified: now });
+  return { id: newId, projectName, functionCount: data.functions.length, modified: now };
+}
+
+/**
+ * Deletes a project file from the workspace.
+ */
+export async function deleteWorkspaceProject(id: string): Promise<void> {
+  await fs.unlink(projectFilePath(id));
+}
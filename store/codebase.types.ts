@@ -1,4 +1,6 @@
 import { type Node, type Edge, type NodeChange, type EdgeChange } from 'reactflow';
+import { type ProjectMigrationReport } from '../data/projectMigrations';
+import type { CodeGenCommand } from '../features/codegen/codegenCommands';
 
 export enum CodeAspectType {
   IDENTIFIER = 'identifier',
@@ -14,15 +16,43 @@ export enum AspectState {
   LOCKED = 'locked'
 }
 
+// Language the functions' source code (`CodeFunction.code`) is generated in
+export type TargetLanguage = 'python' | 'typescript' | 'go';
+
+// Where an aspect value came from
+export type AspectRevisionSource =
+  | { kind: 'human' } // Edited (or restored) by the user
+  | { kind: 'llm'; model: string; triggerAspect: CodeAspectType; rationale?: string } // Generated after an edit of `triggerAspect`, with the model's explanation
+  | { kind: 'rename'; from: string; to: string } // Rename ripple after another function was renamed
+  | { kind: 'initial' }; // Value from before revisions were tracked (e.g. sample data)
+
+// A change to a called function that a caller's implementation may not reflect yet.
+// Recorded on the caller in ripple mode (`rippleCallers`) and cleared once its implementation changes.
+export interface CalleeChange {
+  callee: string; // Function name as called in the implementation, e.g. "formatText"
+  aspect: CodeAspectType; // Signature or specification
+  from: string;
+  to: string;
+}
+
+// One value an aspect has had, most recent last in `CodeAspect.history`
+export interface AspectRevision {
+  descriptor: string;
+  source: AspectRevisionSource;
+  timestamp: string; // ISO timestamp
+}
+
 export interface CodeAspectData {
   descriptor: string;
   state: AspectState;
+  history?: AspectRevision[];
 }
 
 export class CodeAspect implements CodeAspectData {
   constructor(
     public descriptor: string = '',
-    public state: AspectState = AspectState.UNSET
+    public state: AspectState = AspectState.UNSET,
+    public history: AspectRevision[] = [] // Bounded; the last entry is the current value (if tracked)
   ) {}
 
   // For better string representation in logs and Redux DevTools
@@ -48,6 +78,7 @@ export interface CodeFunctionData {
   implementation: Partial<CodeAspectData>;
   code: string;
   position?: { x: number; y: number }; // Store position with the function
+  calleeChanges?: CalleeChange[];
 }
 
 export class CodeFunction {
@@ -61,7 +92,8 @@ export class CodeFunction {
     public implementation: CodeAspect = new CodeAspect(),
     public code: string = '',
     id?: string,
-    position?: { x: number; y: number }
+    position?: { x: number; y: number },
+    public calleeChanges: CalleeChange[] = [] // Non-empty: the implementation needs review
   ) {
     this.id = id || crypto.randomUUID();
     this.position = position || { x: 0, y: 0 };
@@ -82,6 +114,7 @@ export class CodeFunction {
       implementation: this.implementation,
       code: this.code,
       position: this.position,
+      calleeChanges: this.calleeChanges,
       _summary: this.toString()
     };
   }
@@ -89,21 +122,136 @@ export class CodeFunction {
 
 // Data structure for React Flow nodes
 export interface FlowNodeData {
-  functionIndex: number;
+  functionId: string; // Matches CodeFunction.id (and the node id)
+}
+
+// Domain data captured for undo/redo
+export interface HistorySnapshot {
+  projectName: string;
+  codeFunctions: CodeFunction[];
+}
+
+// A named copy of the project, created by the user (e.g. "before auth refactor")
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  created: string; // ISO timestamp
+  codeFunctions: CodeFunction[];
+}
+
+// A code-generation request, queued or talking to the LLM. Jobs are transient:
+// they are neither saved nor part of the undo history.
+export interface CodegenJob {
+  id: string;
+  functionId: string;
+  functionName: string; // Identifier when the job was queued, for display
+  field: CodeAspectType; // Aspect whose edit (or reroll) triggered the job
+  aspectsToGenerate: CodeAspectType[];
+  generateCode: boolean; // Also (re)write the source code
+  calleeChanges?: CalleeChange[]; // Ripple regeneration: callee changes the implementation should follow
+  reroll?: boolean; // Regenerate `field` itself, bypassing the server's response cache
+  brief?: string; // New project from a brief: the function is the entry point of the system to draft
+  status: 'queued' | 'running';
+  created: string; // ISO timestamp
+  model?: string; // Set once the backend has started
+}
+
+// Tokens, latency and cost of one codegen call, measured on the server
+export interface CodegenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd?: number; // Missing if the model has no known price
+}
+
+// Usage of one codegen call, attributed to the function and aspect that triggered it. Saved with the project.
+export interface CodegenUsageRecord extends CodegenUsage {
+  id: string;
+  timestamp: string; // ISO timestamp
+  model: string;
+  functionId: string;
+  functionName: string; // Identifier at the time of the call (the function may be renamed or deleted since)
+  triggerAspect: CodeAspectType;
+}
+
+// Project-level prompt settings for code generation. A missing template means
+// the default (features/codegen/codegenPrompt.ts), so it follows updates of the app.
+export interface PromptSettings {
+  systemTemplate?: string;
+  userTemplate?: string;
+  glossary?: string; // The project's terms and their meanings, free text; the templates' {{glossary}}
+}
+
+// A command from the LLM waiting for the user's review (propose mode). The
+// commands of one response form a change set. Transient, like `CodegenJob`.
+export interface CodegenProposal {
+  id: string;
+  changeSetId: string; // One per codegen response
+  command: CodeGenCommand;
+  functionId: string; // Function the command targets; for create_method, the function that triggered codegen
+  source: AspectRevisionSource; // Recorded in the revision history when accepted
+}
+
+// A project load that failed; shown in the UI while the current project stays loaded
+export interface ProjectLoadError {
+  source: string; // File name, URL or workspace project id
+  message: string;
+  details: string[]; // One entry per validation problem, prefixed with its JSON path
 }
 
 export interface CodebaseState {
   // Core data model
   projectName: string;
   codeFunctions: CodeFunction[];
+  currentProjectId: string | null; // Workspace project the canvas is bound to (null = unsaved)
+  viewport: { x: number; y: number; zoom: number } | null; // Last committed canvas viewport
+  hasUnsavedChanges: boolean; // True after any edit since the last load or workspace save
+  lastMigration: ProjectMigrationReport | null; // Set if the last loaded file was upgraded from an older schema
+  loadError: ProjectLoadError | null; // Set if the last load failed
+  undoStack: HistorySnapshot[]; // State before each committed action, most recent last
+  redoStack: HistorySnapshot[]; // Undone states, most recent last
+  snapshots: ProjectSnapshot[]; // Named snapshots, saved with the project
+  targetLanguage: TargetLanguage; // Project-level language of the generated source code
+  rippleCallers: boolean; // Ripple mode: signature/spec edits mark the callers' implementations for review
+  proposeChanges: boolean; // Propose mode: LLM commands wait in `proposals` instead of being applied
+  proposals: CodegenProposal[]; // Pending LLM commands in propose mode, oldest first
+  codegenJobs: CodegenJob[]; // Pending code generation, oldest first (scheduled by features/codegen/codegenQueue.ts)
+  autoGenerateIds: string[]; // Functions the user just created by name; their node generates the other aspects once (transient)
+  usageRecords: CodegenUsageRecord[]; // One per completed codegen call, oldest first
+  usageBudget: number | null; // USD; no further codegen calls once the recorded cost reaches it (null = no budget)
+  promptSettings: PromptSettings; // Custom prompt templates and glossary ({} = defaults)
   
   // Core actions
   updateProjectName: (name: string) => void;
-  addCodeFunction: (position: { x: number; y: number }, initialData?: Partial<CodeFunctionData>) => string; // Returns the new function's ID
-  updateCodeFunction: (id: string, func: Partial<CodeFunction>) => void;
+  addCodeFunction: (position: { x: number; y: number }, initialData?: Partial<CodeFunctionData>, autoGenerate?: boolean) => string; // Returns the new function's ID
+  takeAutoGenerate: (id: string) => boolean; // True (once) if the function was added with `autoGenerate`
+  updateCodeFunction: (id: string, func: Partial<CodeFunction>, source?: AspectRevisionSource) => void; // Source of changed descriptors (default: human)
   removeCodeFunction: (id: string) => void;
-  loadProjectFromFile: () => Promise<void>;
+  loadProjectFromUrl: (jsonPath?: string) => Promise<void>; // Defaults to the example dataset
+  loadProjectFromFile: (file: File) => Promise<void>;
+  loadProject: (data: unknown, projectId?: string | null, source?: string) => Promise<void>; // Raw project JSON, migrated and validated on load
+  openWorkspaceProject: (id: string) => Promise<void>;
+  saveWorkspaceProject: () => Promise<string>; // Returns the project ID
   setNodePosition: (id: string, position: { x: number; y: number }) => void;
+  updateViewport: (viewport: { x: number; y: number; zoom: number }) => void;
+  undo: () => void;
+  redo: () => void;
+  batchHistory: <T>(fn: () => T, group?: string) => T; // Mutations inside `fn` undo as a single step, joined with the previous batch of the same `group`
+  createSnapshot: (name: string) => string; // Returns the snapshot ID
+  restoreSnapshot: (id: string) => void; // Undoable
+  deleteSnapshot: (id: string) => void;
+  setTargetLanguage: (language: TargetLanguage) => void; // Existing code is kept until regenerated
+  setRippleCallers: (enabled: boolean) => void;
+  setProposeChanges: (enabled: boolean) => void; // Pending proposals stay when it is turned off
+  addProposals: (proposals: CodegenProposal[]) => void;
+  removeProposals: (ids: string[]) => void; // Accepting applies them first (see acceptCodegenProposals)
+  addCodegenJob: (job: CodegenJob) => void;
+  updateCodegenJob: (id: string, update: Partial<Pick<CodegenJob, 'status' | 'model'>>) => void;
+  removeCodegenJob: (id: string) => void; // Cancels the job if it hasn't finished
+  addUsageRecord: (record: CodegenUsageRecord) => void;
+  setUsageBudget: (budget: number | null) => void;
+  clearUsageRecords: () => void;
+  setPromptSettings: (settings: PromptSettings) => void; // Replaces all prompt settings
 
   // React Flow state
   nodes: Node<FlowNodeData>[];
@@ -7,20 +7,65 @@ import {
   CodeFunction,
   type CodebaseState,
   type CodeAspectData,
-  type CodeFunctionData
+  type CodeFunctionData,
+  type AspectRevisionSource,
+  type ProjectLoadError,
+  type HistorySnapshot,
+  type ProjectSnapshot,
+  type TargetLanguage,
+  type CodegenJob,
+  type CodegenProposal,
+  type CodegenUsageRecord,
+  type PromptSettings,
+  type CalleeChange
 } from './codebase.types';
 
-import { loadProjectData } from '../data/dataLoader';
+import { loadProjectData, parseProjectData, projectDataFromState, readProjectFile } from '../data/dataLoader';
+import { ProjectValidationError, type ProjectData } from '../data/projectSchema';
+import { openProject, createProject, saveProject } from '../app/actions/projects';
 
 
+import { DEFAULT_TARGET_LANGUAGE } from '../features/codegen/codegenLanguages';
+import { rippleCalleeChanges } from '../features/codegen/codegenRipple';
+
+// Dataset loaded on startup
+const EXAMPLE_PROJECT_URL = '/datasets/example-project.json';
+
 // Helper function to create a new CodeAspect from partial data
 const createCodeAspect = (field: Partial<CodeAspectData> = {}): CodeAspect => {
   return new CodeAspect(
     field.descriptor ?? '',
-    field.state ?? AspectState.UNSET
+    field.state ?? AspectState.UNSET,
+    field.history ?? []
   );
 };
 
+// Number of revisions kept per aspect
+const MAX_ASPECT_REVISIONS = 20;
+
+// Helper function to merge an aspect update, recording a revision if the descriptor changed.
+// History is owned by the store: any `history` in the update is ignored.
+const updateAspect = (
+  existing: CodeAspect,
+  update: Partial<CodeAspectData> | undefined,
+  source: AspectRevisionSource
+): Partial<CodeAspectData> => {
+  const merged = { ...existing, ...update, history: existing.history };
+  if (!update || update.descriptor === undefined || update.descriptor === existing.descriptor) {
+    return merged;
+  }
+
+  // Values from before revisions were tracked are kept as an 'initial' revision
+  const timestamp = new Date().toISOString();
+  const history = existing.history.length === 0 && existing.descriptor
+    ? [{ descriptor: existing.descriptor, source: { kind: 'initial' } as const, timestamp }]
+    : existing.history;
+  return {
+    ...merged,
+    history: [...history, { descriptor: update.descriptor, source, timestamp }].slice(-MAX_ASPECT_REVISIONS),
+  };
+};
+
 // Helper function to create a new CodeFunction from partial data
 export const createCodeFunction = (func: Partial<CodeFunctionData> = {}): CodeFunction => {
   
@@ -31,10 +76,72 @@ export const createCodeFunction = (func: Partial<CodeFunctionData> = {}): CodeFu
     createCodeAspect(func.implementation || {}),
     func.code ?? '',
     func.id,
-    func.position
+    func.position,
+    func.calleeChanges ? [...func.calleeChanges] : []
   );
 };
 
+// Helper function to describe a failed project load for the UI
+const describeLoadError = (source: string, error: unknown): ProjectLoadError => {
+  if (error instanceof ProjectValidationError) {
+    return {
+      source,
+      message: `The file does not match the project format (${error.errors.length} problem${error.errors.length === 1 ? '' : 's'}).`,
+      details: error.errors,
+    };
+  }
+  return {
+    source,
+    message: error instanceof Error ? error.message : String(error),
+    details: [],
+  };
+};
+
+// Helper function to run a load step; on failure, the error is recorded for the UI
+// and the current project is left untouched
+const reportLoadErrors = async <T,>(source: string, load: () => Promise<T>): Promise<T> => {
+  try {
+    return await load();
+  } catch (error) {
+    console.error(`Failed to load project from '${source}':`, error);
+    useCodebaseStore.setState({ loadError: describeLoadError(source, error) });
+    throw error;
+  }
+};
+
+// Helper function comparing saved project data by content, ignoring its timestamps
+const projectContent = (data: ProjectData): string =>
+  JSON.stringify({ ...data, created: undefined, modified: undefined });
+
+// Undo/redo bookkeeping. Inside `batchHistory`, only the first mutation records a
+// snapshot, so the whole batch undoes as one step. Batches of the same group (e.g.
+// the commands of one streamed response) join the step recorded by the previous
+// one, as long as nothing else has been recorded or undone in between.
+const MAX_HISTORY_LENGTH = 100;
+let historyBatchDepth = 0;
+let historyBatchRecorded = false;
+let historyBatchGroup: string | undefined;
+let lastRecordedGroup: string | undefined; // Group of the snapshot on top of the undo stack
+
+const takeSnapshot = (state: CodebaseState): HistorySnapshot => ({
+  projectName: state.projectName,
+  codeFunctions: state.codeFunctions,
+});
+
+// Helper function returning the history update to merge into a mutation's `set`
+const recordHistory = (state: CodebaseState): Partial<CodebaseState> => {
+  if (historyBatchDepth > 0) {
+    if (historyBatchRecorded) return {};
+    historyBatchRecorded = true;
+    if (historyBatchGroup !== undefined && historyBatchGroup === lastRecordedGroup && state.undoStack.length > 0) return {};
+  }
+  lastRecordedGroup = historyBatchDepth > 0 ? historyBatchGroup : undefined;
+  return {
+    undoStack: [...state.undoStack, takeSnapshot(state)].slice(-MAX_HISTORY_LENGTH),
+    redoStack: [],
+  };
+};
+
 // Create the store
 export const useCodebaseStore = create<CodebaseState>()(
   devtools(
@@ -42,62 +149,110 @@ export const useCodebaseStore = create<CodebaseState>()(
       // Core state - will be populated by async loading
       projectName: 'Loading...',
       codeFunctions: [],
+      currentProjectId: null,
+      viewport: null,
+      hasUnsavedChanges: false,
+      lastMigration: null,
+      loadError: null,
+      undoStack: [],
+      redoStack: [],
+      snapshots: [],
+      targetLanguage: DEFAULT_TARGET_LANGUAGE,
+      rippleCallers: false,
+      proposeChanges: false,
+      proposals: [],
+      codegenJobs: [],
+      autoGenerateIds: [],
+      usageRecords: [],
+      usageBudget: null,
+      promptSettings: {},
       
       // Persist graph (currently no-op, kept for future)
       saveGraph: (nodes: unknown, edges: unknown) => {},
 
       // Update the project name
       updateProjectName: (name: string) => {
-        set({ projectName: name }, false, 'updateProjectName');
+        set((state) => ({
+          ...recordHistory(state),
+          projectName: name,
+          hasUnsavedChanges: true,
+        }), false, 'updateProjectName');
       },
       
       // Add a new function with required position
-      addCodeFunction: (position: { x: number; y: number }, initialData?: Partial<CodeFunctionData>) => {
+      addCodeFunction: (position: { x: number; y: number }, initialData?: Partial<CodeFunctionData>, autoGenerate = false) => {
         const newFunction = createCodeFunction({ position, ...initialData });
         set((state) => {
           const codeFunctions = [...state.codeFunctions, newFunction];
           
           return {
+            ...recordHistory(state),
             codeFunctions,
+            ...(autoGenerate ? { autoGenerateIds: [...state.autoGenerateIds, newFunction.id] } : {}),
+            hasUnsavedChanges: true,
           };
         }, false, 'addCodeFunction');
         return newFunction.id; // Return the ID of the newly created function
       },
+
+      // Claim the one-time codegen of a function added with `autoGenerate`. Loading,
+      // undo/redo and snapshots never set it, so re-mounted nodes don't generate.
+      takeAutoGenerate: (id: string) => {
+        if (!get().autoGenerateIds.includes(id)) return false;
+        set((state) => ({ autoGenerateIds: state.autoGenerateIds.filter((other) => other !== id) }), false, 'takeAutoGenerate');
+        return true;
+      },
       
       // Set position for a specific node by ID
       setNodePosition: (id: string, position: { x: number; y: number }) => {
         set((state) => {
+          if (!state.codeFunctions.some((func) => func.id === id)) return state;
+          
           const codeFunctions = state.codeFunctions.map((func) =>
             func.id === id
               ? createCodeFunction({ ...func, position })
               : func
           );
-          return { codeFunctions };
+          return { ...recordHistory(state), codeFunctions, hasUnsavedChanges: true };
         }, false, 'setNodePosition');
       },
       
       // Update an existing function by ID
-      updateCodeFunction: (id: string, func: Partial<CodeFunction>) => {
+      updateCodeFunction: (id: string, func: Partial<CodeFunction>, source: AspectRevisionSource = { kind: 'human' }) => {
         set((state) => {
           const existingFunction = state.codeFunctions.find((f) => f.id === id);
           if (!existingFunction) return state;
           
           const updatedFunction = createCodeFunction({
             id: existingFunction.id,
-            identifier: { ...existingFunction.identifier, ...func.identifier },
-            signature: { ...existingFunction.signature, ...func.signature },
-            specification: { ...existingFunction.specification, ...func.specification },
-            implementation: { ...existingFunction.implementation, ...func.implementation },
+            identifier: updateAspect(existingFunction.identifier, func.identifier, source),
+            signature: updateAspect(existingFunction.signature, func.signature, source),
+            specification: updateAspect(existingFunction.specification, func.specification, source),
+            implementation: updateAspect(existingFunction.implementation, func.implementation, source),
             code: func.code ?? existingFunction.code,
             position: func.position ?? existingFunction.position,
+            // A changed implementation counts as reviewed
+            calleeChanges: func.calleeChanges ?? (
+              func.implementation?.descriptor !== undefined && func.implementation.descriptor !== existingFunction.implementation.descriptor
+                ? []
+                : existingFunction.calleeChanges
+            ),
           });
           
+          // Ripple mode: callers of a changed signature or specification get their implementations marked for review
+          const callerChanges = state.rippleCallers
+            ? rippleCalleeChanges(state.codeFunctions, existingFunction, updatedFunction)
+            : new Map<string, CalleeChange[]>();
           const codeFunctions = state.codeFunctions.map((f) =>
-            f.id === id ? updatedFunction : f
+            f.id === id
+              ? updatedFunction
+              : callerChanges.has(f.id) ? createCodeFunction({ ...f, calleeChanges: callerChanges.get(f.id) }) : f
           );
           
           return {
+            ...recordHistory(state),
             codeFunctions,
+            hasUnsavedChanges: true,
           };
         }, false, 'updateCodeFunction');
       },
@@ -105,57 +260,239 @@ export const useCodebaseStore = create<CodebaseState>()(
       // Remove a function by ID
       removeCodeFunction: (id: string) => {
         set((state) => {
+          if (!state.codeFunctions.some((f) => f.id === id)) return state;
+          
           const codeFunctions = state.codeFunctions.filter((f) => f.id !== id);
           return {
+            ...recordHistory(state),
             codeFunctions,
+            proposals: state.proposals.filter((p) => p.functionId !== id), // Nothing left to review them on
+            hasUnsavedChanges: true,
           };
         }, false, 'removeCodeFunction');
       },
+
+      // Run several mutations as a single undo step (e.g. one LLM response, or a rename ripple)
+      batchHistory: <T>(fn: () => T, group?: string): T => {
+        if (historyBatchDepth === 0) historyBatchGroup = group;
+        historyBatchDepth++;
+        try {
+          return fn();
+        } finally {
+          historyBatchDepth--;
+          if (historyBatchDepth === 0) {
+            historyBatchRecorded = false;
+            historyBatchGroup = undefined;
+          }
+        }
+      },
+
+      // Restore the state before the last committed action
+      undo: () => {
+        lastRecordedGroup = undefined; // Later batches of the same group start a new step
+        set((state) => {
+          const previous = state.undoStack[state.undoStack.length - 1];
+          if (!previous) return state;
+          return {
+            ...previous,
+            undoStack: state.undoStack.slice(0, -1),
+            redoStack: [...state.redoStack, takeSnapshot(state)],
+            hasUnsavedChanges: true,
+          };
+        }, false, 'undo');
+      },
+
+      // Re-apply the last undone action
+      redo: () => {
+        lastRecordedGroup = undefined;
+        set((state) => {
+          const next = state.redoStack[state.redoStack.length - 1];
+          if (!next) return state;
+          return {
+            ...next,
+            undoStack: [...state.undoStack, takeSnapshot(state)],
+            redoStack: state.redoStack.slice(0, -1),
+            hasUnsavedChanges: true,
+          };
+        }, false, 'redo');
+      },
+
+      // Save the current functions as a named snapshot
+      createSnapshot: (name: string) => {
+        const snapshot: ProjectSnapshot = {
+          id: crypto.randomUUID(),
+          name,
+          created: new Date().toISOString(),
+          codeFunctions: get().codeFunctions,
+        };
+        set((state) => ({
+          snapshots: [...state.snapshots, snapshot],
+          hasUnsavedChanges: true,
+        }), false, 'createSnapshot');
+        return snapshot.id;
+      },
+
+      // Replace the current functions with a snapshot's (the project name stays)
+      restoreSnapshot: (id: string) => {
+        set((state) => {
+          const snapshot = state.snapshots.find((s) => s.id === id);
+          if (!snapshot) return state;
+          return {
+            ...recordHistory(state),
+            codeFunctions: snapshot.codeFunctions,
+            hasUnsavedChanges: true,
+          };
+        }, false, 'restoreSnapshot');
+      },
+
+      deleteSnapshot: (id: string) => {
+        set((state) => ({
+          snapshots: state.snapshots.filter((s) => s.id !== id),
+          hasUnsavedChanges: true,
+        }), false, 'deleteSnapshot');
+      },
+
+      // Project setting, not part of the undo history
+      setTargetLanguage: (language: TargetLanguage) => {
+        set({ targetLanguage: language, hasUnsavedChanges: true }, false, 'setTargetLanguage');
+      },
+
+      // Project setting, not part of the undo history
+      setRippleCallers: (enabled: boolean) => {
+        set({ rippleCallers: enabled, hasUnsavedChanges: true }, false, 'setRippleCallers');
+      },
+
+      setProposeChanges: (enabled: boolean) => {
+        set({ proposeChanges: enabled, hasUnsavedChanges: true }, false, 'setProposeChanges');
+      },
+
+      // Proposals of propose mode (runtime state only, not saved and not undoable)
+      addProposals: (proposals: CodegenProposal[]) => {
+        set((state) => ({ proposals: [...state.proposals, ...proposals] }), false, 'addProposals');
+      },
+
+      removeProposals: (ids: string[]) => {
+        set((state) => ({ proposals: state.proposals.filter((p) => !ids.includes(p.id)) }), false, 'removeProposals');
+      },
+
+      // Code-generation jobs (runtime state only, not saved and not undoable)
+      addCodegenJob: (job: CodegenJob) => {
+        set((state) => ({ codegenJobs: [...state.codegenJobs, job] }), false, 'addCodegenJob');
+      },
+
+      updateCodegenJob: (id: string, update: Partial<Pick<CodegenJob, 'status' | 'model'>>) => {
+        set((state) => ({
+          codegenJobs: state.codegenJobs.map((job) => (job.id === id ? { ...job, ...update } : job)),
+        }), false, 'updateCodegenJob');
+      },
+
+      removeCodegenJob: (id: string) => {
+        set((state) => ({ codegenJobs: state.codegenJobs.filter((job) => job.id !== id) }), false, 'removeCodegenJob');
+      },
+
+      // Usage accounting, saved with the project but not part of the undo history
+      addUsageRecord: (record: CodegenUsageRecord) => {
+        set((state) => ({ usageRecords: [...state.usageRecords, record], hasUnsavedChanges: true }), false, 'addUsageRecord');
+      },
+
+      setUsageBudget: (budget: number | null) => {
+        set({ usageBudget: budget, hasUnsavedChanges: true }, false, 'setUsageBudget');
+      },
+
+      clearUsageRecords: () => {
+        set({ usageRecords: [], hasUnsavedChanges: true }, false, 'clearUsageRecords');
+      },
+
+      // Project setting, not part of the undo history
+      setPromptSettings: (settings: PromptSettings) => {
+        set({ promptSettings: settings, hasUnsavedChanges: true }, false, 'setPromptSettings');
+      },
+
+      // Remember the canvas viewport (called when the user stops panning/zooming)
+      updateViewport: (viewport: { x: number; y: number; zoom: number }) => {
+        set({ viewport }, false, 'updateViewport');
+      },
       
       // Async method to load project from external JSON using the data loader
-      loadProjectFromFile: async () => {
-        const projectData = await loadProjectData('/datasets/example-project.json');
-        
-        // Convert loaded functions to CodeFunction instances with positions
-        const codeFunctions: CodeFunction[] = [];
-        
-        if (projectData.nodes) {
-          // If nodes data exists, use those positions
-          projectData.codeFunctions.forEach((func, index) => {
-            const position = projectData.nodes?.[index]?.position || { x: 100, y: 100 };
-            codeFunctions.push(createCodeFunction({ ...func, position }));
-          });
-        } else {
-          // For sample data without nodes, use placement algorithm to generate positions
-          const { findOptimalNodePlacement } = await import('../utils/nodePlacement');
-          const { calculateNodeHeight, NODE_WIDTH } = await import('../constants/nodeConstants');
-          const existingNodes: any[] = [];
-          
-          projectData.codeFunctions.forEach((func) => {
-            const startPosition = { x: 100, y: 100 };
-            const optimalPosition = findOptimalNodePlacement(startPosition, existingNodes);
-            
-            const newFunction = createCodeFunction({ ...func, position: optimalPosition });
-            codeFunctions.push(newFunction);
-            
-            // Add to existing nodes for next placement calculation with CORRECT dimensions
-            existingNodes.push({
-              id: newFunction.id,
-              position: optimalPosition,
-              width: NODE_WIDTH,
-              height: calculateNodeHeight(newFunction), // Use actual calculated height
-              data: { functionId: newFunction.id },
-              type: 'method' as const,
-            });
-          });
-        }
+      loadProjectFromUrl: async (jsonPath: string = EXAMPLE_PROJECT_URL) => {
+        const { projectName, codeFunctions, snapshots, targetLanguage, rippleCallers, proposeChanges, usageRecords, usageBudget, promptSettings, viewport, migration } = await reportLoadErrors(jsonPath, () => loadProjectData(jsonPath));
         
         set({
-          projectName: projectData.projectName,
+          projectName,
           codeFunctions,
-        }, false, 'loadProjectFromFile');
+          snapshots,
+          targetLanguage,
+          rippleCallers,
+          proposeChanges,
+          usageRecords,
+          usageBudget,
+          promptSettings,
+          currentProjectId: null,
+          viewport: viewport ?? null,
+          hasUnsavedChanges: false,
+          lastMigration: migration ?? null,
+          loadError: null,
+          undoStack: [],
+          redoStack: [],
+          codegenJobs: [], // Responses for the previous project must not be applied to this one
+          proposals: [],
+          autoGenerateIds: [],
+        }, false, 'loadProjectFromUrl');
         
-        console.log('Successfully loaded project from external JSON:', projectData.projectName, 'with', codeFunctions.length, 'functions');
+        console.log('Successfully loaded project from external JSON:', projectName, 'with', codeFunctions.length, 'functions');
+      },
+
+      // Load a project file chosen or dropped by the user (not bound to a workspace project)
+      loadProjectFromFile: async (file: File) => {
+        const data = await reportLoadErrors(file.name, () => readProjectFile(file));
+        await get().loadProject(data, null, file.name);
+        console.log('Successfully imported project from file:', file.name);
+      },
+
+      // Replace the current project with the given project data
+      loadProject: async (data: unknown, projectId: string | null = null, source: string = 'project data') => {
+        const { projectName, codeFunctions, snapshots, targetLanguage, rippleCallers, proposeChanges, usageRecords, usageBudget, promptSettings, viewport, migration } = await reportLoadErrors(source, async () => parseProjectData(data));
+
+        set({
+          projectName,
+          codeFunctions,
+          snapshots,
+          targetLanguage,
+          rippleCallers,
+          proposeChanges,
+          usageRecords,
+          usageBudget,
+          promptSettings,
+          currentProjectId: projectId,
+          viewport: viewport ?? null,
+          hasUnsavedChanges: false,
+          lastMigration: migration ?? null,
+          loadError: null,
+          undoStack: [],
+          redoStack: [],
+          codegenJobs: [], // Responses for the previous project must not be applied to this one
+          proposals: [],
+          autoGenerateIds: [],
+        }, false, 'loadProject');
+      },
+
+      // Open a project from the server-side workspace
+      openWorkspaceProject: async (id: string) => {
+        const data = await reportLoadErrors(id, () => openProject(id));
+        await get().loadProject(data, id, id);
+        console.log('Opened workspace project:', id, 'with', get().codeFunctions.length, 'functions');
+      },
+
+      // Save the current state to the server-side workspace, creating a new project file if needed
+      saveWorkspaceProject: async () => {
+        const projectId = get().currentProjectId ?? (await createProject(get().projectName)).id;
+        const savedData = projectDataFromState(get());
+        const summary = await saveProject(projectId, savedData);
+
+        // Edits made while the save was in flight aren't in the file yet
+        const isUnchanged = projectContent(projectDataFromState(get())) === projectContent(savedData);
+        set({ currentProjectId: summary.id, hasUnsavedChanges: !isUnchanged }, false, 'saveWorkspaceProject');
+        return summary.id;
       },
       
     }),
@@ -0,0 +1,59 @@
+import { CodeFunction } from '../store/codebase.types';
+import { findCallers } from '../features/codegen/codegenRipple';
+import { NODE_CONSTANTS, NODE_WIDTH, calculateNodeHeight } from '../constants/nodeConstants';
+
+/**
+ * Layered layout of the call graph, with calls flowing left to right:
+ * functions nobody calls form the first column, and every other function sits
+ * one column right of its nearest caller (breadth-first, so shared helpers
+ * appear once, at their shallowest depth). Within a column, a function is
+ * placed no higher than its caller, so each subtree stays next to its root.
+ * Functions only reachable through a cycle start a tree of their own.
+ *
+ * @param codeFunctions Functions to lay out
+ * @param origin Top-left corner of the first column
+ * @returns The new top-left position of every function, by id
+ */
+export function layoutCallTree(
+  codeFunctions: CodeFunction[],
+  origin: { x: number; y: number } = { x: 100, y: 100 }
+): Map<string, { x: number; y: number }> {
+  const name = (func: CodeFunction) => func.identifier.descriptor.split('(')[0].trim();
+
+  // Callees of each function, in the order the functions are listed
+  const callees = new Map<string, CodeFunction[]>(codeFunctions.map((func) => [func.id, []]));
+  codeFunctions.forEach((callee) => {
+    findCallers(name(callee), codeFunctions).forEach((caller) => callees.get(caller.id)!.push(callee));
+  });
+  const hasCaller = new Set([...callees.values()].flat().map((func) => func.id));
+
+  // Same spacing as new functions next to their caller (see placeNewFunction)
+  const columnWidth = NODE_WIDTH * 1.5 + NODE_CONSTANTS.MARGIN;
+  const columnBottoms: number[] = [];
+  const positions = new Map<string, { x: number; y: number }>();
+
+  const place = (func: CodeFunction, depth: number, minY: number) => {
+    const y = Math.max(columnBottoms[depth] ?? origin.y, minY);
+    positions.set(func.id, { x: origin.x + depth * columnWidth, y });
+    columnBottoms[depth] = y + calculateNodeHeight(func) + NODE_CONSTANTS.MARGIN;
+  };
+
+  const layoutTree = (root: CodeFunction) => {
+    place(root, 0, columnBottoms.length > 0 ? Math.max(...columnBottoms) : origin.y);
+    const queue: Array<{ func: CodeFunction; depth: number }> = [{ func: root, depth: 0 }];
+    while (queue.length > 0) {
+      const { func, depth } = queue.shift()!;
+      callees.get(func.id)!.forEach((callee) => {
+        if (positions.has(callee.id)) return;
+        place(callee, depth + 1, positions.get(func.id)!.y);
+        queue.push({ func: callee, depth: depth + 1 });
+      });
+    }
+  };
+
+  codeFunctions.filter((func) => !hasCaller.has(func.id)).forEach(layoutTree);
+  codeFunctions.forEach((func) => {
+    if (!positions.has(func.id)) layoutTree(func);
+  });
+  return positions;
+}
@@ -0,0 +1,11 @@
+/**
+ * Derives a file-system safe slug from a project name, e.g. "My Project!" → "my-project".
+ * Used for workspace project ids and exported file names.
+ */
+export function slugifyProjectName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'project';
+}